@@ -11,6 +11,8 @@ import { loadConfig } from './config';
 // Load environment variables from .env file
 dotenv.config();
 
+let server: CombinedDiscordAxonServer | undefined;
+
 async function main() {
   try {
     const config = loadConfig();
@@ -20,10 +22,11 @@ async function main() {
     console.log(`🔌 WebSocket Port: ${config.wsPort || 8081}`);
     console.log(`📦 Module Port: ${config.modulePort || 8082}`);
     
-    const server = new CombinedDiscordAxonServer(
+    server = new CombinedDiscordAxonServer(
       config.httpPort || 8080,
       config.wsPort || 8081,
-      config.modulePort || 8082
+      config.modulePort || 8082,
+      config
     );
     
     await server.init();
@@ -35,15 +38,18 @@ async function main() {
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+async function shutdown() {
   console.log('\n👋 Shutting down gracefully...');
+  try {
+    await server?.stop();
+  } catch (error) {
+    console.error('❌ Error during shutdown:', error instanceof Error ? error.message : error);
+  }
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  console.log('\n👋 Shutting down gracefully...');
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // Run the server
 main().catch(error => {
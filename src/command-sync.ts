@@ -0,0 +1,245 @@
+/**
+ * Guild command sync
+ *
+ * Keeps the set of application commands each guild should have, across all
+ * agent connections, and reconciles Discord with it through a single bulk
+ * overwrite. Registrations that arrive together are coalesced into one
+ * write, and nothing is written when Discord already has the desired set.
+ *
+ * Commands belong to the agent that registered them. When an agent's last
+ * connection to a guild closes, its commands are kept for a grace period so
+ * a quick reconnect doesn't tear them down and re-create them.
+ */
+
+import type { RESTPostAPIApplicationCommandsJSONBody } from 'discord.js';
+
+export const DEFAULT_COMMAND_GRACE_PERIOD_MS = 60 * 1000;
+
+export type CommandDefinition = RESTPostAPIApplicationCommandsJSONBody;
+
+/**
+ * The Discord endpoints the sync needs (list and bulk overwrite of a
+ * guild's commands)
+ */
+export interface CommandApi {
+  fetch(guildId: string): Promise<any[]>;
+  replace(guildId: string, commands: CommandDefinition[]): Promise<any[]>;
+}
+
+interface OwnedCommand {
+  owner: string;              // Agent name
+  definition: CommandDefinition;
+}
+
+interface GuildCommands {
+  desired: Map<string, OwnedCommand>; // Keyed by command key (type and name)
+  remote?: string;            // Canonical form of what Discord last reported
+  running: Promise<void>;     // The sync in flight, if any
+  queued?: Promise<void>;     // The next sync, shared by everyone waiting on it
+  releaseTimers: Map<string, NodeJS.Timeout>; // Owner -> pending release
+}
+
+// A change to a guild's desired commands: key, entry set (undefined if
+// removed), entry it replaced
+type Change = [string, OwnedCommand | undefined, OwnedCommand | undefined];
+
+export class CommandSync {
+  private guilds = new Map<string, GuildCommands>();
+
+  constructor(private api: CommandApi, private gracePeriodMs: number = DEFAULT_COMMAND_GRACE_PERIOD_MS) {}
+
+  /**
+   * Add or replace an agent's command and sync the guild. Throws if another
+   * agent owns a command with the same name, or if Discord rejects the
+   * sync (the previous definition is then restored).
+   */
+  async register(guildId: string, owner: string, definition: CommandDefinition): Promise<void> {
+    const guild = this.guild(guildId);
+    const key = commandKey(definition);
+    const existing = guild.desired.get(key);
+    if (existing && existing.owner !== owner) {
+      throw new Error(`Command ${definition.name} is already registered by agent ${existing.owner}`);
+    }
+
+    const command = { owner, definition };
+    guild.desired.set(key, command);
+    await this.syncOrRestore(guildId, guild, [[key, command, existing]]);
+  }
+
+  /**
+   * Remove an agent's command and sync the guild. Removing a command that
+   * isn't registered is not an error; if Discord rejects the sync the
+   * command is kept.
+   */
+  async unregister(guildId: string, owner: string, name: string, type: number = 1): Promise<void> {
+    const guild = this.guild(guildId);
+    const key = commandKey({ name, type } as CommandDefinition);
+    const existing = guild.desired.get(key);
+    if (existing && existing.owner !== owner) {
+      throw new Error(`Command ${name} is registered by agent ${existing.owner}`);
+    }
+
+    guild.desired.delete(key);
+    await this.syncOrRestore(guildId, guild, [[key, undefined, existing]]);
+  }
+
+  /**
+   * The agent that registered a command, if any
+   */
+  ownerOf(guildId: string, name: string, type: number = 1): string | undefined {
+    return this.guilds.get(guildId)?.desired.get(commandKey({ name, type } as CommandDefinition))?.owner;
+  }
+
+  /**
+   * An agent reconnected to a guild: keep its commands
+   */
+  retain(guildId: string, owner: string): void {
+    const guild = this.guilds.get(guildId);
+    const timer = guild?.releaseTimers.get(owner);
+    if (timer) {
+      clearTimeout(timer);
+      guild!.releaseTimers.delete(owner);
+      console.log(`[Commands] Kept commands of ${owner} in guild ${guildId} after reconnect`);
+    }
+  }
+
+  /**
+   * An agent's last connection to a guild closed: remove its commands
+   * unless it reconnects within the grace period
+   */
+  release(guildId: string, owner: string): void {
+    const guild = this.guilds.get(guildId);
+    if (!guild || ![...guild.desired.values()].some(command => command.owner === owner)) return;
+
+    clearTimeout(guild.releaseTimers.get(owner));
+    guild.releaseTimers.set(owner, setTimeout(() => {
+      guild.releaseTimers.delete(owner);
+      const changes: Change[] = [];
+      for (const [key, command] of guild.desired) {
+        if (command.owner !== owner) continue;
+        guild.desired.delete(key);
+        changes.push([key, undefined, command]);
+      }
+      console.log(`[Commands] Removing commands of ${owner} from guild ${guildId}`);
+      this.syncOrRestore(guildId, guild, changes).catch(error => {
+        console.error(`[Commands] Failed to sync guild ${guildId}:`, error);
+      });
+    }, this.gracePeriodMs));
+  }
+
+  /**
+   * Stop pending releases (on shutdown)
+   */
+  clear(): void {
+    for (const guild of this.guilds.values()) {
+      for (const timer of guild.releaseTimers.values()) clearTimeout(timer);
+      guild.releaseTimers.clear();
+    }
+  }
+
+  /**
+   * Reconcile a guild with Discord. Calls made while a sync is running share
+   * the next one, so a burst of registrations costs at most two writes.
+   */
+  private sync(guildId: string): Promise<void> {
+    const guild = this.guild(guildId);
+    if (!guild.queued) {
+      guild.queued = guild.running.then(() => {
+        guild.queued = undefined;
+        return this.reconcile(guildId, guild);
+      });
+      guild.running = guild.queued.catch(() => undefined);
+    }
+    return guild.queued;
+  }
+
+  /**
+   * Sync after changing the desired set; if Discord rejects it, undo the
+   * changes (those not changed again since), so one bad definition doesn't
+   * make every later sync of the guild fail
+   */
+  private async syncOrRestore(guildId: string, guild: GuildCommands, changes: Change[]): Promise<void> {
+    try {
+      await this.sync(guildId);
+    } catch (error) {
+      for (const [key, applied, previous] of changes) {
+        if (guild.desired.get(key) !== applied) continue;
+        if (previous) {
+          guild.desired.set(key, previous);
+        } else {
+          guild.desired.delete(key);
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async reconcile(guildId: string, guild: GuildCommands): Promise<void> {
+    const commands = [...guild.desired.values()].map(command => command.definition);
+    const desired = canonicalCommands(commands);
+
+    if (guild.remote === undefined) {
+      guild.remote = canonicalCommands(await this.api.fetch(guildId));
+    }
+    if (guild.remote === desired) {
+      return;
+    }
+
+    console.log(`[Commands] Syncing ${commands.length} commands to guild ${guildId}`);
+    try {
+      guild.remote = canonicalCommands(await this.api.replace(guildId, commands));
+    } catch (error) {
+      // The overwrite may or may not have been applied; check next time
+      guild.remote = undefined;
+      throw error;
+    }
+  }
+
+  private guild(guildId: string): GuildCommands {
+    let guild = this.guilds.get(guildId);
+    if (!guild) {
+      guild = { desired: new Map(), running: Promise.resolve(), releaseTimers: new Map() };
+      this.guilds.set(guildId, guild);
+    }
+    return guild;
+  }
+}
+
+// Chat input, user and message commands have separate namespaces
+function commandKey(command: { name: string; type?: number }): string {
+  return `${command.type ?? 1}:${command.name}`;
+}
+
+/**
+ * A stable string for a set of commands, covering only the fields the server
+ * sets, so commands Discord reports back compare equal to what was sent
+ */
+function canonicalCommands(commands: any[]): string {
+  return JSON.stringify(
+    commands
+      .map(command => ({
+        type: command.type ?? 1,
+        name: command.name,
+        description: command.description ?? '',
+        options: canonicalOptions(command.options)
+      }))
+      .sort((a, b) => commandKey(a).localeCompare(commandKey(b)))
+  );
+}
+
+function canonicalOptions(options: any[] | undefined): any[] {
+  return (options ?? []).map(option => ({
+    type: option.type,
+    name: option.name,
+    description: option.description,
+    required: !!option.required,
+    autocomplete: !!option.autocomplete,
+    choices: (option.choices ?? []).map((choice: any) => ({ name: choice.name, value: choice.value })),
+    channelTypes: [...(option.channel_types ?? [])].sort(),
+    minValue: option.min_value ?? null,
+    maxValue: option.max_value ?? null,
+    minLength: option.min_length ?? null,
+    maxLength: option.max_length ?? null,
+    options: canonicalOptions(option.options)
+  }));
+}
@@ -0,0 +1,313 @@
+/**
+ * Outgoing message components and modals
+ *
+ * Translates ComponentInput rows (buttons, link buttons and select menus) and
+ * modal definitions from AXON clients into discord.js builders. Inputs are
+ * checked against Discord's component limits first, so a bad layout fails
+ * with a descriptive error instead of an API exception.
+ *
+ * Each agent's customIds are prefixed with a short namespace derived from its
+ * name, so clicks, selections and modal submissions can be routed back to the
+ * agent that sent the component when several share a guild. Agents only ever
+ * see their own, unprefixed customIds.
+ */
+
+import { createHash } from 'crypto';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelSelectMenuBuilder,
+  ChannelType,
+  MentionableSelectMenuBuilder,
+  ModalBuilder,
+  RoleSelectMenuBuilder,
+  StringSelectMenuBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  UserSelectMenuBuilder
+} from 'discord.js';
+import type { MessageActionRowComponentBuilder } from 'discord.js';
+import type { ButtonInput, ChannelTypeName, ComponentInput, ModalFieldInput, SelectMenuInput } from './protocol';
+
+export const MAX_ACTION_ROWS = 5;
+
+const MAX_BUTTONS_PER_ROW = 5;
+const MAX_SELECT_OPTIONS = 25;
+const MAX_MODAL_FIELDS = 5;
+const MAX_CUSTOM_ID_LENGTH = 100;
+const MAX_LABEL_LENGTH = 80;
+const MAX_MODAL_TITLE_LENGTH = 45;
+const MAX_TEXT_INPUT_LENGTH = 4000;
+
+const SELECT_MENU_TYPES = new Set(['string-select', 'user-select', 'role-select', 'mentionable-select', 'channel-select']);
+
+const CHANNEL_TYPES: Partial<Record<ChannelTypeName, ChannelType[]>> = {
+  text: [ChannelType.GuildText],
+  announcement: [ChannelType.GuildAnnouncement],
+  forum: [ChannelType.GuildForum],
+  voice: [ChannelType.GuildVoice],
+  stage: [ChannelType.GuildStageVoice],
+  category: [ChannelType.GuildCategory],
+  thread: [ChannelType.PublicThread, ChannelType.PrivateThread, ChannelType.AnnouncementThread]
+};
+
+const NAMESPACE_PATTERN = /^([0-9a-f]{8}):(.*)$/s;
+
+type ComponentRow = ActionRowBuilder<MessageActionRowComponentBuilder>;
+
+/**
+ * The customId namespace of an agent
+ */
+export function customIdNamespace(agentName: string): string {
+  return createHash('sha256').update(agentName).digest('hex').slice(0, 8);
+}
+
+/**
+ * Split a customId into its namespace (null for customIds from before
+ * namespacing) and the customId the agent chose
+ */
+export function parseCustomId(customId: string): { namespace: string | null; customId: string } {
+  const match = customId.match(NAMESPACE_PATTERN);
+  return match ? { namespace: match[1], customId: match[2] } : { namespace: null, customId };
+}
+
+/**
+ * Discord channel types for a list of channel type names (as used by
+ * channel selects and channel options)
+ */
+export function channelTypesFor(names: ChannelTypeName[], where: string): ChannelType[] {
+  if (!Array.isArray(names)) {
+    throw new Error(`${where}: channelTypes must be an array`);
+  }
+  return names.flatMap(name => {
+    const types = CHANNEL_TYPES[name];
+    if (!types) throw new Error(`${where}: unknown channel type '${name}'`);
+    return types;
+  });
+}
+
+export function buttonStyle(style: string | undefined): ButtonStyle {
+  switch (style?.toLowerCase()) {
+    case 'primary':
+    case 'blurple':
+      return ButtonStyle.Primary;
+    case 'secondary':
+    case 'grey':
+    case 'gray':
+      return ButtonStyle.Secondary;
+    case 'success':
+    case 'green':
+      return ButtonStyle.Success;
+    case 'danger':
+    case 'red':
+      return ButtonStyle.Danger;
+    case 'link':
+      return ButtonStyle.Link;
+    default:
+      return ButtonStyle.Primary;
+  }
+}
+
+/**
+ * The component rows a frame asks for: `buttons` as rows of up to five
+ * buttons, followed by the rows in `components`
+ */
+export function collectComponentRows(frame: { buttons?: ButtonInput[]; components?: ComponentInput[][] }): ComponentInput[][] {
+  const rows: ComponentInput[][] = [];
+  const buttons = frame.buttons ?? [];
+  for (let i = 0; i < buttons.length; i += MAX_BUTTONS_PER_ROW) {
+    rows.push(buttons.slice(i, i + MAX_BUTTONS_PER_ROW));
+  }
+  return [...rows, ...(frame.components ?? [])];
+}
+
+/**
+ * Validate and build the action rows of one message, prefixing customIds
+ * with the sending agent's namespace. Throws a descriptive error if the
+ * layout breaks Discord's limits.
+ */
+export function buildComponentRows(rows: ComponentInput[][], namespace: string): ComponentRow[] {
+  if (rows.length > MAX_ACTION_ROWS) {
+    throw new Error(`Too many component rows: ${rows.length} (at most ${MAX_ACTION_ROWS} per message)`);
+  }
+
+  return rows.map((row, index) => {
+    const label = `Row ${index + 1}`;
+    if (!Array.isArray(row) || row.length === 0) {
+      throw new Error(`${label} must be a non-empty array of components`);
+    }
+
+    const selects = row.filter(isSelectMenu);
+    if (selects.length > 0 && row.length > 1) {
+      throw new Error(`${label}: a select menu must be alone in its row`);
+    }
+    if (row.length > MAX_BUTTONS_PER_ROW) {
+      throw new Error(`${label}: ${row.length} buttons (at most ${MAX_BUTTONS_PER_ROW} per row)`);
+    }
+
+    return new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+      row.map((component, position) => {
+        const where = `${label}, component ${position + 1}`;
+        return isSelectMenu(component)
+          ? buildSelectMenu(component, where, namespace)
+          : buildButton(component as ButtonInput, where, namespace);
+      })
+    );
+  });
+}
+
+function isSelectMenu(component: ComponentInput): component is SelectMenuInput {
+  return SELECT_MENU_TYPES.has((component as SelectMenuInput)?.type);
+}
+
+/**
+ * Check a customId and prefix it with a namespace, which counts towards
+ * Discord's length limit
+ */
+function checkCustomId(customId: unknown, where: string, namespace?: string): string {
+  if (typeof customId !== 'string' || customId.length === 0) {
+    throw new Error(`${where} needs a customId`);
+  }
+  const maxLength = MAX_CUSTOM_ID_LENGTH - (namespace ? namespace.length + 1 : 0);
+  if (customId.length > maxLength) {
+    throw new Error(`${where}: customId is ${customId.length} characters (at most ${maxLength})`);
+  }
+  return namespace ? `${namespace}:${customId}` : customId;
+}
+
+function checkLabel(label: unknown, where: string, max: number = MAX_LABEL_LENGTH): string {
+  if (typeof label !== 'string' || label.length === 0) {
+    throw new Error(`${where} needs a label`);
+  }
+  if (label.length > max) {
+    throw new Error(`${where}: label is ${label.length} characters (at most ${max})`);
+  }
+  return label;
+}
+
+function buildButton(input: ButtonInput, where: string, namespace: string): ButtonBuilder {
+  if (!input || typeof input !== 'object') {
+    throw new Error(`${where} must be an object`);
+  }
+  if (input.type !== undefined && input.type !== 'button') {
+    throw new Error(`${where}: unknown component type '${input.type}'`);
+  }
+
+  const button = new ButtonBuilder()
+    .setLabel(checkLabel(input.label, where))
+    .setDisabled(!!input.disabled);
+
+  // Link buttons open a URL and never produce an interaction
+  if (input.url !== undefined || buttonStyle(input.style) === ButtonStyle.Link) {
+    if (typeof input.url !== 'string' || !/^https?:\/\/\S+$/.test(input.url)) {
+      throw new Error(`${where}: link buttons need an http(s) url`);
+    }
+    if (input.customId !== undefined) {
+      throw new Error(`${where}: link buttons can't have a customId`);
+    }
+    button.setStyle(ButtonStyle.Link).setURL(input.url);
+  } else {
+    button.setStyle(buttonStyle(input.style)).setCustomId(checkCustomId(input.customId, where, namespace));
+  }
+
+  if (input.emoji) {
+    button.setEmoji(input.emoji);
+  }
+  return button;
+}
+
+function buildSelectMenu(input: SelectMenuInput, where: string, namespace: string): MessageActionRowComponentBuilder {
+  const customId = checkCustomId(input.customId, where, namespace);
+
+  let menu: StringSelectMenuBuilder | UserSelectMenuBuilder | RoleSelectMenuBuilder | MentionableSelectMenuBuilder | ChannelSelectMenuBuilder;
+  switch (input.type) {
+    case 'string-select': {
+      const options = input.options ?? [];
+      if (options.length === 0 || options.length > MAX_SELECT_OPTIONS) {
+        throw new Error(`${where}: string selects need 1 to ${MAX_SELECT_OPTIONS} options (got ${options.length})`);
+      }
+      menu = new StringSelectMenuBuilder().addOptions(options.map((option, index) => {
+        const optionWhere = `${where}, option ${index + 1}`;
+        if (typeof option?.value !== 'string' || option.value.length === 0) {
+          throw new Error(`${optionWhere} needs a value`);
+        }
+        return {
+          label: checkLabel(option.label, optionWhere, MAX_CUSTOM_ID_LENGTH),
+          value: option.value,
+          description: option.description,
+          emoji: option.emoji,
+          default: option.default
+        };
+      }));
+      break;
+    }
+    case 'user-select':
+      menu = new UserSelectMenuBuilder();
+      break;
+    case 'role-select':
+      menu = new RoleSelectMenuBuilder();
+      break;
+    case 'mentionable-select':
+      menu = new MentionableSelectMenuBuilder();
+      break;
+    case 'channel-select': {
+      const channelMenu = new ChannelSelectMenuBuilder();
+      if (input.channelTypes) {
+        channelMenu.setChannelTypes(channelTypesFor(input.channelTypes, where));
+      }
+      menu = channelMenu;
+      break;
+    }
+  }
+
+  const maxValues = input.type === 'string-select' ? input.options!.length : MAX_SELECT_OPTIONS;
+  if (input.minValues !== undefined && (input.minValues < 0 || input.minValues > maxValues)) {
+    throw new Error(`${where}: minValues must be between 0 and ${maxValues}`);
+  }
+  if (input.maxValues !== undefined && (input.maxValues < 1 || input.maxValues > maxValues || input.maxValues < (input.minValues ?? 1))) {
+    throw new Error(`${where}: maxValues must be between ${Math.max(1, input.minValues ?? 1)} and ${maxValues}`);
+  }
+
+  menu.setCustomId(customId).setDisabled(!!input.disabled);
+  if (input.placeholder) menu.setPlaceholder(input.placeholder);
+  if (input.minValues !== undefined) menu.setMinValues(input.minValues);
+  if (input.maxValues !== undefined) menu.setMaxValues(input.maxValues);
+  return menu;
+}
+
+/**
+ * Validate and build a modal of text inputs, one per row. The modal's
+ * customId is namespaced like component customIds; its fields' are not.
+ */
+export function buildModal(customId: string, title: string, fields: ModalFieldInput[], namespace: string): ModalBuilder {
+  const modalId = checkCustomId(customId, 'Modal', namespace);
+  checkLabel(title, 'Modal title', MAX_MODAL_TITLE_LENGTH);
+  if (!Array.isArray(fields) || fields.length === 0 || fields.length > MAX_MODAL_FIELDS) {
+    throw new Error(`Modals need 1 to ${MAX_MODAL_FIELDS} fields`);
+  }
+
+  const rows = fields.map((field, index) => {
+    const where = `Modal field ${index + 1}`;
+    const input = new TextInputBuilder()
+      .setCustomId(checkCustomId(field?.customId, where))
+      .setLabel(checkLabel(field.label, where, MAX_MODAL_TITLE_LENGTH))
+      .setStyle(field.style === 'paragraph' ? TextInputStyle.Paragraph : TextInputStyle.Short)
+      .setRequired(field.required ?? true);
+
+    for (const key of ['minLength', 'maxLength'] as const) {
+      const value = field[key];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > MAX_TEXT_INPUT_LENGTH)) {
+        throw new Error(`${where}: ${key} must be between 0 and ${MAX_TEXT_INPUT_LENGTH}`);
+      }
+    }
+    if (field.minLength !== undefined) input.setMinLength(field.minLength);
+    if (field.maxLength !== undefined) input.setMaxLength(field.maxLength);
+    if (field.placeholder) input.setPlaceholder(field.placeholder);
+    if (field.value !== undefined) input.setValue(field.value);
+
+    return new ActionRowBuilder<TextInputBuilder>().addComponents(input);
+  });
+
+  return new ModalBuilder().setCustomId(modalId).setTitle(title).addComponents(rows);
+}
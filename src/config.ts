@@ -1,6 +1,10 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import yaml from 'js-yaml';
+import type { ApiKeyConfig } from './permissions';
+import type { SendQueueConfig } from './send-queue';
+import type { OutboxConfig } from './outbox';
+import type { MembershipStoreConfig } from './membership-store';
 
 export interface DiscordConfig {
   botToken: string;
@@ -10,9 +14,91 @@ export interface DiscordConfig {
   wsPort?: number;
   modulePort?: number;
   debug?: boolean;
+  // Shared secrets keyed by agent name; an agent with an entry here must
+  // authenticate with its secret instead of the bot token
+  agentSecrets?: Record<string, string>;
+  // How long an unauthenticated WebSocket may stay open (ms)
+  authTimeoutMs?: number;
+  // Scoped per-agent API keys (see permissions.ts)
+  apiKeys?: ApiKeyConfig[];
+  // Set to false to require an API key or agent secret (default true)
+  allowBotTokenAuth?: boolean;
+  // Append text attachments up to this many bytes to message content (0/unset disables)
+  inlineTextAttachmentBytes?: number;
+  // Directories agents may upload files from by path (base64 uploads are always allowed)
+  uploadRoots?: string[];
+  // Defer interactions agents haven't answered within autoDeferAfterMs (default true, 2000ms)
+  autoDeferInteractions?: boolean;
+  autoDeferAfterMs?: number;
+  // Show the deferred "thinking..." state only to the invoking user (default false)
+  deferEphemeral?: boolean;
+  // Keep a disconnected agent's slash commands this long in case it reconnects (ms)
+  commandGracePeriodMs?: number;
+  // Most messages sent for one join catch-up or fetchHistory (default 1000)
+  maxHistoryMessages?: number;
+  // How long a disconnected agent's session can be resumed (ms, default 60000)
+  // and how many recent events it keeps for replay (default 500)
+  resumeWindowMs?: number;
+  replayBufferSize?: number;
+  // Outbound rate limits, queue size and coalescing (see send-queue.ts)
+  sendQueue?: SendQueueConfig;
+  // Retries and persistence of pending sends (see outbox.ts)
+  outbox?: OutboxConfig;
+  // Where agents' joined channels and read positions are kept (see membership-store.ts)
+  membershipStore?: MembershipStoreConfig;
+}
+
+/**
+ * Server settings that are only configurable through config.yaml
+ * (merged into the config regardless of where the bot token came from)
+ */
+function readServerSettings(discord: any): Partial<DiscordConfig> {
+  if (!discord) return {};
+
+  return {
+    agentSecrets: discord.agentSecrets,
+    authTimeoutMs: discord.authTimeoutMs,
+    apiKeys: discord.apiKeys,
+    allowBotTokenAuth: discord.allowBotTokenAuth,
+    inlineTextAttachmentBytes: discord.inlineTextAttachmentBytes,
+    uploadRoots: discord.uploadRoots,
+    autoDeferInteractions: discord.autoDeferInteractions,
+    autoDeferAfterMs: discord.autoDeferAfterMs,
+    deferEphemeral: discord.deferEphemeral,
+    commandGracePeriodMs: discord.commandGracePeriodMs,
+    maxHistoryMessages: discord.maxHistoryMessages,
+    resumeWindowMs: discord.resumeWindowMs,
+    replayBufferSize: discord.replayBufferSize,
+    sendQueue: discord.sendQueue,
+    outbox: discord.outbox,
+    membershipStore: discord.membershipStore
+  };
+}
+
+function readConfigFile(): { path: string; config: any } | undefined {
+  const configPaths = [
+    join(process.cwd(), 'config.yaml'),
+    join(process.cwd(), 'discord_config.yaml'),
+  ];
+
+  for (const configPath of configPaths) {
+    if (existsSync(configPath)) {
+      try {
+        const configContent = readFileSync(configPath, 'utf8');
+        return { path: configPath, config: yaml.load(configContent) as any };
+      } catch (error) {
+        console.error(`Error loading config from ${configPath}:`, error);
+      }
+    }
+  }
+
+  return undefined;
 }
 
 export function loadConfig(): DiscordConfig {
+  const file = readConfigFile();
+  const config = file?.config;
+
   // Check environment variables first
   if (process.env.DISCORD_BOT_TOKEN) {
     return {
@@ -22,50 +108,39 @@ export function loadConfig(): DiscordConfig {
       httpPort: parseInt(process.env.HTTP_PORT || '8080'),
       wsPort: parseInt(process.env.WS_PORT || '8081'),
       modulePort: parseInt(process.env.MODULE_PORT || '8082'),
-      debug: process.env.DEBUG === 'true'
+      debug: process.env.DEBUG === 'true',
+      ...readServerSettings(config?.discord)
     };
   }
 
   // Try to load from config file
-  const configPaths = [
-    join(process.cwd(), 'config.yaml'),
-    join(process.cwd(), 'discord_config.yaml'),
-  ];
+  if (config) {
+    // Try discord.botToken first
+    if (config.discord?.botToken) {
+      return {
+        botToken: config.discord.botToken,
+        guildId: config.discord.guildId || config.adapter?.guild,
+        channelId: config.discord.channelId || config.adapter?.channel,
+        httpPort: config.discord.httpPort || 8080,
+        wsPort: config.discord.wsPort || 8081,
+        modulePort: config.discord.modulePort || 8082,
+        debug: config.discord.debug || false,
+        ...readServerSettings(config.discord)
+      };
+    }
 
-  for (const configPath of configPaths) {
-    if (existsSync(configPath)) {
-      try {
-        const configContent = readFileSync(configPath, 'utf8');
-        const config = yaml.load(configContent) as any;
-        
-        // Try discord.botToken first
-        if (config.discord?.botToken) {
-          return {
-            botToken: config.discord.botToken,
-            guildId: config.discord.guildId || config.adapter?.guild,
-            channelId: config.discord.channelId || config.adapter?.channel,
-            httpPort: config.discord.httpPort || 8080,
-            wsPort: config.discord.wsPort || 8081,
-            modulePort: config.discord.modulePort || 8082,
-            debug: config.discord.debug || false
-          };
-        }
-        
-        // Try adapter.bot_token format (legacy)
-        if (config.adapter?.bot_token) {
-          return {
-            botToken: config.adapter.bot_token,
-            guildId: config.adapter?.guild,
-            channelId: config.adapter?.channel,
-            httpPort: config.discord?.httpPort || 8080,
-            wsPort: config.discord?.wsPort || 8081,
-            modulePort: config.discord?.modulePort || 8082,
-            debug: config.discord?.debug || false
-          };
-        }
-      } catch (error) {
-        console.error(`Error loading config from ${configPath}:`, error);
-      }
+    // Try adapter.bot_token format (legacy)
+    if (config.adapter?.bot_token) {
+      return {
+        botToken: config.adapter.bot_token,
+        guildId: config.adapter?.guild,
+        channelId: config.adapter?.channel,
+        httpPort: config.discord?.httpPort || 8080,
+        wsPort: config.discord?.wsPort || 8081,
+        modulePort: config.discord?.modulePort || 8082,
+        debug: config.discord?.debug || false,
+        ...readServerSettings(config.discord)
+      };
     }
   }
 
@@ -18,6 +18,7 @@ import { ContextTransform } from 'connectome-ts/src/hud/context-transform';
 import { ElementRequestReceptor, ElementTreeMaintainer, ElementTreeTransform } from 'connectome-ts/src/spaces/element-tree-receptors';
 import type { Facet, ReadonlyVEILState, FacetDelta, EffectorResult, AgentInterface, VEILDelta } from 'connectome-ts/src';
 import { updateStateFacets } from 'connectome-ts/src/helpers/factories';
+import type { AttachmentInfo, EmbedInfo, MessageComponentInfo } from './protocol';
 
 export interface DiscordAppConfig {
   agentName: string;
@@ -26,11 +27,94 @@ export interface DiscordAppConfig {
   discord: {
     host: string;
     guild: string;
+    apiKey?: string;  // Scoped AXON API key (preferred over passing the bot token)
     modulePort?: number;
     autoJoinChannels?: string[];
+    directMessages?: boolean;  // Receive DMs sent to the bot (activates the agent on every DM)
   };
 }
 
+/**
+ * Describe a message's attachments, one per line, for speech content.
+ * Inlined text attachments are already part of the content and are skipped.
+ */
+function formatAttachments(attachments: AttachmentInfo[] | undefined): string {
+  const listed = (attachments || []).filter(attachment => !attachment.inlined);
+  if (listed.length === 0) return '';
+
+  return '\n' + listed.map(attachment => {
+    const details = [
+      attachment.contentType,
+      attachment.size >= 1024 ? `${Math.round(attachment.size / 1024)} KB` : `${attachment.size} B`,
+      attachment.width && attachment.height ? `${attachment.width}x${attachment.height}` : null
+    ].filter(Boolean).join(', ');
+    return `[Attachment: ${attachment.filename} (${details})]`;
+  }).join('\n');
+}
+
+/**
+ * Render embeds as quoted text blocks, so messages that are only embeds
+ * (other bots, link previews, webhooks) aren't empty in speech content
+ */
+function formatEmbeds(embeds: EmbedInfo[] | undefined): string {
+  if (!embeds || embeds.length === 0) return '';
+
+  return '\n' + embeds.map(embed => {
+    const lines = [embed.provider ? `[Embed from ${embed.provider}]` : '[Embed]'];
+    if (embed.author) lines.push(`Author: ${embed.author.name}`);
+    if (embed.title) {
+      lines.push(embed.url ? `Title: ${embed.title} <${embed.url}>` : `Title: ${embed.title}`);
+    } else if (embed.url) {
+      lines.push(`URL: ${embed.url}`);
+    }
+    if (embed.description) lines.push(embed.description);
+    for (const field of embed.fields) {
+      lines.push(`${field.name}: ${field.value}`);
+    }
+    if (embed.image) lines.push(`Image: ${embed.image}`);
+    if (embed.footer) lines.push(`Footer: ${embed.footer.text}`);
+    return lines.join('\n').split('\n').map(line => `> ${line}`).join('\n');
+  }).join('\n');
+}
+
+/**
+ * Render a message's buttons and select menus, one line per action row
+ */
+function formatComponents(rows: MessageComponentInfo[][] | undefined): string {
+  const rendered = (rows || []).filter(row => row.length > 0).map(row => row.map(component => {
+    const disabled = component.disabled ? ' (disabled)' : '';
+    switch (component.kind) {
+      case 'button': {
+        const label = [component.emoji, component.label].filter(Boolean).join(' ');
+        return component.url ? `[Link: ${label} <${component.url}>]` : `[Button: ${label}${disabled}]`;
+      }
+      case 'string-select': {
+        const options = (component.options || []).map(option => option.label).join(', ');
+        return `[Menu: ${component.placeholder || 'Select'}${options ? ` (${options})` : ''}${disabled}]`;
+      }
+      case 'other':
+        return '[Component]';
+      default:
+        return `[Menu: ${component.placeholder || component.kind}${disabled}]`;
+    }
+  }).join(' '));
+
+  return rendered.length > 0 ? '\n' + rendered.join('\n') : '';
+}
+
+/**
+ * Speech content for a message: its text followed by rendered embeds,
+ * components and attachments
+ */
+function formatMessageBody(message: { content?: string; embeds?: EmbedInfo[]; components?: MessageComponentInfo[][]; attachments?: AttachmentInfo[] }): string {
+  const body = (message.content || '')
+    + formatEmbeds(message.embeds)
+    + formatComponents(message.components)
+    + formatAttachments(message.attachments);
+  // Drop the separator when there is no text before the extras
+  return message.content ? body : body.replace(/^\n/, '');
+}
+
 /**
  * Receptor: Converts discord:connected events to facets
  */
@@ -81,7 +165,7 @@ class DiscordMessageReceptor extends BaseReceptor {
   
   transform(event: SpaceEvent, state: ReadonlyVEILState): any[] {
     const payload = event.payload as any;
-    const { channelId, channelName, author, authorId, content, rawContent, mentions, reply, messageId, streamId, streamType, isBot } = payload;
+    const { channelId, channelName, author, authorId, content, rawContent, mentions, reply, attachments, embeds, components, messageId, streamId, streamType, isBot, thread, dm } = payload;
     // Note: isHistory removed - history messages come through discord:history-sync, not discord:message
     
     // Check if we've already processed this message (de-dup against VEIL)
@@ -106,7 +190,7 @@ class DiscordMessageReceptor extends BaseReceptor {
     }
     
     // Format content with reply syntax if this is a reply
-    let formattedContent = content;
+    let formattedContent = formatMessageBody(payload);
     let replyToUsername = null;
     
     if (reply) {
@@ -119,7 +203,7 @@ class DiscordMessageReceptor extends BaseReceptor {
       }
       
       if (replyToUsername) {
-        formattedContent = `<reply:@${replyToUsername}> ${content}`;
+        formattedContent = `<reply:@${replyToUsername}> ${formattedContent}`;
       }
     }
     
@@ -160,7 +244,12 @@ class DiscordMessageReceptor extends BaseReceptor {
             isBot,
             rawContent, // Original content with Discord IDs
             mentions, // Structured mention metadata
-            reply // Reply information if this is a reply
+            reply, // Reply information if this is a reply
+            attachments, // Attachment metadata (filename, type, size, URL, dimensions)
+            embeds, // Structured embeds, also rendered into the speech content
+            components, // Buttons and select menus
+            thread, // Thread and parent channel, if posted in a thread
+            dm // The other user, if this is a direct message
           }
         },
         streamId,
@@ -169,7 +258,9 @@ class DiscordMessageReceptor extends BaseReceptor {
           channelId,
           messageId,
           mentions, // Also include in attributes for easy access
-          reply // Reply information for quick access
+          reply, // Reply information for quick access
+          attachments,
+          parentChannelId: thread?.parentId
         },
         children: [speechFacet] // Speech nested inside message
       }
@@ -182,14 +273,17 @@ class DiscordMessageReceptor extends BaseReceptor {
       state
     ));
     
-    // Activate agent if the bot is mentioned or replied to
+    // Activate agent if the bot is mentioned or replied to, or on any DM
     // (History messages don't come through this receptor anymore)
-    if (botUserId) {
+    if (botUserId || dm) {
+      // Every DM is addressed to the bot
+      const directMessage = !!dm;
+
       // Check if bot is mentioned
-      const botMentioned = mentions?.users?.some((u: any) => u.id === botUserId);
+      const botMentioned = !!botUserId && mentions?.users?.some((u: any) => u.id === botUserId);
       
       // Check if this is a reply to the bot
-      const replyingToBot = reply?.authorId === botUserId;
+      const replyingToBot = !!botUserId && reply?.authorId === botUserId;
       
       // Check for fallback activation pattern: "<activate AgentName>"
       // This allows testing even without proper Discord mentions
@@ -197,8 +291,9 @@ class DiscordMessageReceptor extends BaseReceptor {
       const activateMatch = rawContent?.match(activatePattern);
       const fallbackActivate = activateMatch !== null && activateMatch !== undefined;
       
-      if (botMentioned || replyingToBot || fallbackActivate) {
-        const reason = botMentioned ? 'bot_mentioned' : 
+      if (directMessage || botMentioned || replyingToBot || fallbackActivate) {
+        const reason = directMessage ? 'direct_message' :
+                      botMentioned ? 'bot_mentioned' : 
                       replyingToBot ? 'bot_replied_to' : 
                       'fallback_activate';
         console.log(`[DiscordMessageReceptor] Creating agent activation (${reason}${fallbackActivate && activateMatch ? `: ${activateMatch[1]}` : ''})`);
@@ -220,7 +315,9 @@ class DiscordMessageReceptor extends BaseReceptor {
               streamType,
               metadata: {
                 channelId,
-                channelName
+                channelName,
+                parentChannelId: thread?.parentId,
+                dmUserId: dm?.userId
               }
             }
             }
@@ -252,10 +349,19 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
   topics = ['discord:history-sync'];
   
   transform(event: SpaceEvent, state: ReadonlyVEILState): any[] {
-    const { channelId, channelName, messages } = event.payload as any;
+    const { channelId, channelName, thread, messages, upToDate } = event.payload as any;
     const deltas: any[] = [];
     
     console.log(`[DiscordHistorySync] Syncing ${messages.length} messages for channel ${channelId}`);
+
+    // History arrives in pages, so a message missing from it was only
+    // deleted if it falls within the page: between its oldest and newest
+    // message, or after them when the page runs up to the present
+    const pageIds = messages.map((m: any) => BigInt(m.messageId));
+    const oldest = pageIds.reduce((min: bigint, id: bigint) => id < min ? id : min, pageIds[0]);
+    const newest = pageIds.reduce((max: bigint, id: bigint) => id > max ? id : max, pageIds[0]);
+    const withinPage = (messageId: string) =>
+      pageIds.length > 0 && BigInt(messageId) >= oldest && (upToDate || BigInt(messageId) <= newest);
     
     // Build map of current Discord state
     const discordMessages = new Map(messages.map((m: any) => [m.messageId, m]));
@@ -284,6 +390,8 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
       const discordMsg = discordMessages.get(messageId) as any;
       
       if (!discordMsg) {
+        if (!withinPage(messageId)) continue;
+
         // Message was DELETED offline
         console.log(`[DiscordHistorySync] Message ${messageId} deleted offline`);
         deletedCount++;
@@ -317,7 +425,7 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
           }
         });
         
-      } else if (this.extractContent(veilContent) !== discordMsg.content) {
+      } else if (this.wasEdited(veilMsg, veilContent, discordMsg)) {
         // Message was EDITED offline
         console.log(`[DiscordHistorySync] Message ${messageId} edited offline`);
         console.log(`  VEIL: "${this.extractContent(veilContent)}"`);
@@ -330,7 +438,7 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
             type: 'rewriteFacet',
             id: speechFacet.id,
             changes: {
-              content: `${discordMsg.author}: ${discordMsg.content}` // Parsed content
+              content: `${discordMsg.author}: ${formatMessageBody(discordMsg)}` // Parsed content
             }
           });
         }
@@ -346,12 +454,16 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
               metadata: {
                 ...((veilMsg as any).state?.metadata || {}),
                 rawContent: discordMsg.rawContent, // Update raw content
-                mentions: discordMsg.mentions // Update mention metadata
+                mentions: discordMsg.mentions, // Update mention metadata
+                attachments: discordMsg.attachments, // Attachments can be removed by an edit
+                embeds: discordMsg.embeds,
+                components: discordMsg.components
               }
             },
             attributes: {
               ...((veilMsg as any).attributes || {}),
-              mentions: discordMsg.mentions // Update mention metadata in attributes
+              mentions: discordMsg.mentions, // Update mention metadata in attributes
+              attachments: discordMsg.attachments
             }
           }
         });
@@ -407,7 +519,7 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
         const speechFacet = {
           id: `speech-${msg.messageId}`,
           type: 'speech',
-          content: msg.content,  // Just content, HUD will add speaker prefix
+          content: formatMessageBody(msg),  // Just content, HUD will add speaker prefix
           state: {
             speakerId: `discord:${msg.authorId}`,
             speaker: msg.author
@@ -426,13 +538,17 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
               authorId: msg.authorId,
               isBot: msg.isBot,
               rawContent: msg.rawContent,
-              mentions: msg.mentions
+              mentions: msg.mentions,
+              attachments: msg.attachments,
+              embeds: msg.embeds,
+              components: msg.components
             }
           },
           attributes: {
             channelId,
             messageId: msg.messageId,
-            mentions: msg.mentions
+            mentions: msg.mentions,
+            attachments: msg.attachments
           },
           children: [speechFacet]
         });
@@ -451,6 +567,7 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
             metadata: {
               channelId,
               channelName,
+              thread,
               messageCount: newMessages.length
             }
           },
@@ -466,6 +583,18 @@ class DiscordHistorySyncReceptor extends BaseReceptor {
     return deltas;
   }
   
+  /**
+   * Compare raw content when VEIL has it; speech content also carries
+   * attachment descriptions and inlined text, so it can't be compared directly
+   */
+  private wasEdited(veilMsg: any, veilContent: string, discordMsg: any): boolean {
+    const veilRawContent = veilMsg.state?.metadata?.rawContent;
+    if (veilRawContent !== undefined && discordMsg.rawContent !== undefined) {
+      return veilRawContent !== discordMsg.rawContent;
+    }
+    return this.extractContent(veilContent) !== discordMsg.content;
+  }
+
   private extractContent(fullContent: string | undefined): string {
     if (!fullContent) return '';
     // Extract message content from "Author: content" format
@@ -498,7 +627,7 @@ class DiscordMessageUpdateReceptor extends BaseReceptor {
           type: 'rewriteFacet',
           id: speechFacetId,
           changes: {
-            content: `${author}: ${content}` // Use parsed content
+            content: `${author}: ${formatMessageBody(payload)}` // Use parsed content
           }
         });
       }
@@ -517,7 +646,10 @@ class DiscordMessageUpdateReceptor extends BaseReceptor {
               authorId,
               isBot,
               rawContent, // Updated raw content
-              mentions // Updated mention metadata
+              mentions, // Updated mention metadata
+              attachments: payload.attachments,
+              embeds: payload.embeds, // Link previews are usually added by an update
+              components: payload.components
             }
           },
           attributes: {
@@ -616,6 +748,45 @@ class DiscordMessageDeleteReceptor extends BaseReceptor {
   }
 }
 
+/**
+ * Receptor: Attaches reaction state to message facets
+ */
+class DiscordReactionReceptor extends BaseReceptor {
+  topics = ['discord:reaction'];
+  
+  transform(event: SpaceEvent, state: ReadonlyVEILState): any[] {
+    const payload = event.payload as any;
+    const { messageId, emoji, user, action, reactions } = payload;
+    
+    console.log(`[DiscordReactionReceptor] ${user} ${action === 'add' ? 'added' : 'removed'} ${emoji?.name} on message ${messageId}`);
+    
+    const facetId = `discord-msg-${messageId}`;
+    const facet = state.facets.get(facetId) as any;
+    
+    // Reactions on messages outside VEIL are ignored
+    if (!facet) return [];
+    
+    // reactions is the message's full reaction state, so it replaces what we had
+    return [{
+      type: 'rewriteFacet',
+      id: facetId,
+      changes: {
+        state: {
+          ...facet.state,
+          metadata: {
+            ...facet.state?.metadata,
+            reactions
+          }
+        },
+        attributes: {
+          ...facet.attributes,
+          reactions
+        }
+      }
+    }];
+  }
+}
+
 /**
  * Transform: Watches for infrastructure components and triggers Discord element creation
  * when all required components are ready. This ensures receptors exist before the
@@ -634,6 +805,7 @@ class DiscordInfrastructureTransform extends BaseTransform {
     'DiscordHistorySyncReceptor',
     'DiscordMessageUpdateReceptor',
     'DiscordMessageDeleteReceptor',
+    'DiscordReactionReceptor',
     'DiscordSpeechEffector',
     'DiscordTypingEffector',
     'AgentEffector',
@@ -696,7 +868,9 @@ class DiscordInfrastructureTransform extends BaseTransform {
               guild: this.discordConfig.guild,
               agent: this.discordConfig.agent,
               token: this.discordConfig.token,
+              apiKey: this.discordConfig.apiKey,
               autoJoinChannels: this.discordConfig.autoJoinChannels || [],
+              directMessages: this.discordConfig.directMessages || false,
               _axonMetadata: {
                 moduleUrl: this.discordConfig.moduleUrl,
                 manifestUrl: this.discordConfig.manifestUrl
@@ -974,7 +1148,11 @@ class DiscordSpeechEffector extends BaseEffector {
         continue;
       }
       
-      const latestMessage = discordMessages[discordMessages.length - 1] as any;
+      // Reply in the channel or thread the speech is addressed to
+      const streamMessages = discordMessages.filter(f => (f as any).streamId === streamId);
+      const latestMessage = (streamMessages.length > 0
+        ? streamMessages[streamMessages.length - 1]
+        : discordMessages[discordMessages.length - 1]) as any;
       const channelId = latestMessage.attributes?.channelId;
       
       if (!channelId) {
@@ -1134,7 +1312,9 @@ class DiscordAutoJoinComponent extends Component {
       
       if (discordElement) {
         console.log('Found Discord element:', discordElement.name, 'with id:', discordElement.id);
-        for (const channelId of this.channels) {
+        // The server joins the channels it remembers for the agent itself
+        const rejoining: string[] = event.payload?.rejoining || [];
+        for (const channelId of this.channels.filter(id => !rejoining.includes(id))) {
           console.log(`📢 Requesting to join channel: ${channelId}`);
           
           // Emit an action event with the correct format for Element handling
@@ -1188,7 +1368,9 @@ export class DiscordApplication implements ConnectomeApplication {
       guild: this.config.discord.guild,
       agent: this.config.agentName,
       token: botToken,
+      apiKey: this.config.discord.apiKey,
       autoJoinChannels: this.config.discord.autoJoinChannels || [],
+      directMessages: this.config.discord.directMessages || false,
       moduleUrl: `http://localhost:${modulePort}/modules/discord-afferent/module`,
       manifestUrl: `http://localhost:${modulePort}/modules/discord-afferent/manifest`
     };
@@ -1216,7 +1398,8 @@ export class DiscordApplication implements ConnectomeApplication {
       'DiscordMessageReceptor',
       'DiscordHistorySyncReceptor',
       'DiscordMessageUpdateReceptor',
-      'DiscordMessageDeleteReceptor'
+      'DiscordMessageDeleteReceptor',
+      'DiscordReactionReceptor'
     ];
 
     for (const type of receptorTypes) {
@@ -1479,6 +1662,7 @@ export class DiscordApplication implements ConnectomeApplication {
     registry.register('DiscordHistorySyncReceptor', DiscordHistorySyncReceptor);
     registry.register('DiscordMessageUpdateReceptor', DiscordMessageUpdateReceptor);
     registry.register('DiscordMessageDeleteReceptor', DiscordMessageDeleteReceptor);
+    registry.register('DiscordReactionReceptor', DiscordReactionReceptor);
     registry.register('DiscordSpeechEffector', DiscordSpeechEffector);
     registry.register('DiscordTypingEffector', DiscordTypingEffector);
     registry.register('AgentEffector', AgentEffector);
@@ -116,6 +116,7 @@ Be friendly, helpful, and engaging!`,
     discord: {
       host: 'localhost:8081',
       guild: guildId || '',
+      apiKey: process.env.DISCORD_AXON_API_KEY,
       modulePort: 8080,  // The Discord AXON server runs module serving on 8080
       autoJoinChannels: channelId ? [channelId] : []
     }
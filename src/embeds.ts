@@ -0,0 +1,170 @@
+/**
+ * Outgoing embeds
+ *
+ * Translates EmbedInput objects from AXON clients into discord.js embeds for
+ * sendEmbed, editMessage and replyToInteraction. Inputs are checked against
+ * Discord's embed limits first, so an oversized embed fails with a
+ * descriptive error instead of an API exception.
+ */
+
+import { EmbedBuilder } from 'discord.js';
+import type { EmbedInput } from './protocol';
+
+export const MAX_EMBEDS_PER_MESSAGE = 10;
+
+const DEFAULT_COLOR = 0x5865F2;
+
+// https://discord.com/developers/docs/resources/message#embed-object-embed-limits
+const LIMITS = {
+  title: 256,
+  description: 4096,
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footerText: 2048,
+  authorName: 256,
+  total: 6000
+};
+
+const URL_PATTERN = /^https?:\/\/\S+$/;
+const IMAGE_URL_PATTERN = /^(https?:\/\/|attachment:\/\/)\S+$/;
+
+/**
+ * The embeds a frame asks for: its single `embed` followed by its `embeds`
+ */
+export function collectEmbeds(frame: { embed?: EmbedInput; embeds?: EmbedInput[] }): EmbedInput[] {
+  return [...(frame.embed ? [frame.embed] : []), ...(frame.embeds ?? [])];
+}
+
+/**
+ * Validate and build the embeds of one message. Throws a descriptive error
+ * if any embed breaks Discord's limits.
+ */
+export function buildEmbeds(embeds: EmbedInput[]): EmbedBuilder[] {
+  if (embeds.length > MAX_EMBEDS_PER_MESSAGE) {
+    throw new Error(`Too many embeds: ${embeds.length} (at most ${MAX_EMBEDS_PER_MESSAGE} per message)`);
+  }
+
+  let totalLength = 0;
+  const builders = embeds.map((embed, index) => {
+    const label = embeds.length > 1 ? `Embed ${index + 1}` : 'Embed';
+    totalLength += validateEmbed(embed, label);
+    return buildEmbed(embed);
+  });
+
+  if (totalLength > LIMITS.total) {
+    throw new Error(`Embeds total ${totalLength} characters (at most ${LIMITS.total} per message)`);
+  }
+
+  return builders;
+}
+
+/**
+ * Check one embed; returns the number of characters it counts towards the
+ * per-message total
+ */
+function validateEmbed(embed: EmbedInput, label: string): number {
+  if (!embed || typeof embed !== 'object' || Array.isArray(embed)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const checkLength = (field: string, value: unknown, max: number): number => {
+    if (value === undefined || value === null) return 0;
+    if (typeof value !== 'string') {
+      throw new Error(`${label}: ${field} must be a string`);
+    }
+    if (value.length > max) {
+      throw new Error(`${label}: ${field} is ${value.length} characters (at most ${max})`);
+    }
+    return value.length;
+  };
+
+  const checkUrl = (field: string, value: unknown, pattern: RegExp = URL_PATTERN) => {
+    if (value === undefined || value === null) return;
+    if (typeof value !== 'string' || !pattern.test(value)) {
+      throw new Error(`${label}: ${field} must be an http(s) URL`);
+    }
+  };
+
+  let length = checkLength('title', embed.title, LIMITS.title)
+    + checkLength('description', embed.description, LIMITS.description);
+
+  checkUrl('url', embed.url);
+  checkUrl('image', embed.image, IMAGE_URL_PATTERN);
+  checkUrl('thumbnail', embed.thumbnail, IMAGE_URL_PATTERN);
+
+  if (embed.color !== undefined && (!Number.isInteger(embed.color) || embed.color < 0 || embed.color > 0xFFFFFF)) {
+    throw new Error(`${label}: color must be an integer between 0 and 0xFFFFFF`);
+  }
+
+  if (embed.timestamp !== undefined && Number.isNaN(new Date(embed.timestamp).getTime())) {
+    throw new Error(`${label}: timestamp '${embed.timestamp}' is not a valid date`);
+  }
+
+  if (embed.author !== undefined) {
+    if (!embed.author?.name) {
+      throw new Error(`${label}: author needs a name`);
+    }
+    length += checkLength('author name', embed.author.name, LIMITS.authorName);
+    checkUrl('author url', embed.author.url);
+    checkUrl('author iconUrl', embed.author.iconUrl, IMAGE_URL_PATTERN);
+  }
+
+  if (embed.footer !== undefined) {
+    if (!embed.footer?.text) {
+      throw new Error(`${label}: footer needs text`);
+    }
+    length += checkLength('footer text', embed.footer.text, LIMITS.footerText);
+    checkUrl('footer iconUrl', embed.footer.iconUrl, IMAGE_URL_PATTERN);
+  }
+
+  if (embed.fields !== undefined) {
+    if (!Array.isArray(embed.fields)) {
+      throw new Error(`${label}: fields must be an array`);
+    }
+    if (embed.fields.length > LIMITS.fields) {
+      throw new Error(`${label}: ${embed.fields.length} fields (at most ${LIMITS.fields})`);
+    }
+    embed.fields.forEach((field, index) => {
+      if (!field?.name || !field.value) {
+        throw new Error(`${label}: field ${index + 1} needs a name and a value`);
+      }
+      length += checkLength(`field ${index + 1} name`, field.name, LIMITS.fieldName)
+        + checkLength(`field ${index + 1} value`, field.value, LIMITS.fieldValue);
+    });
+  }
+
+  // Discord rejects embeds with nothing to show
+  const hasContent = embed.title || embed.description || embed.author || embed.footer
+    || embed.image || embed.thumbnail || embed.fields?.length;
+  if (!hasContent) {
+    throw new Error(`${label} is empty: set at least a title, description, field, author, footer or image`);
+  }
+
+  return length;
+}
+
+function buildEmbed(embed: EmbedInput): EmbedBuilder {
+  const builder = new EmbedBuilder()
+    .setTitle(embed.title ?? null)
+    .setDescription(embed.description ?? null)
+    .setURL(embed.url ?? null)
+    .setColor(embed.color || DEFAULT_COLOR)
+    .setImage(embed.image ?? null)
+    .setThumbnail(embed.thumbnail ?? null);
+
+  if (embed.timestamp !== undefined) {
+    builder.setTimestamp(new Date(embed.timestamp));
+  }
+  if (embed.author) {
+    builder.setAuthor({ name: embed.author.name, url: embed.author.url, iconURL: embed.author.iconUrl });
+  }
+  if (embed.footer) {
+    builder.setFooter({ text: embed.footer.text, iconURL: embed.footer.iconUrl });
+  }
+  if (embed.fields) {
+    builder.addFields(embed.fields);
+  }
+
+  return builder;
+}
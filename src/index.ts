@@ -9,3 +9,6 @@ export { loadConfig, DiscordConfig } from './config';
 
 // Re-export module interfaces for external use
 export type { AxonConnection } from './server';
+export type { ApiKeyConfig } from './permissions';
+export type { ClientFrame, ServerFrame } from './protocol';
+export { PROTOCOL_VERSION, validateClientFrame } from './protocol';
@@ -0,0 +1,251 @@
+/**
+ * Pending interactions
+ *
+ * Discord gives a bot 3 seconds to acknowledge an interaction and 15 minutes
+ * to keep responding to it through the interaction token. Agents are often
+ * slower than 3 seconds, so interactions they haven't answered are deferred
+ * automatically (showing "thinking..."), and the agent's reply then replaces
+ * that placeholder. Each interaction is forgotten once its token expires.
+ *
+ * Autocomplete interactions can't be deferred: they get a single response
+ * with suggestions, within the 3 second window, or none at all.
+ */
+
+import type {
+  AutocompleteInteraction,
+  InteractionEditReplyOptions,
+  InteractionReplyOptions,
+  Message,
+  ModalBuilder,
+  RepliableInteraction
+} from 'discord.js';
+import { buildChoices } from './slash-commands';
+import type { SlashCommandChoice } from './protocol';
+
+export const INTERACTION_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+
+// Discord's acknowledgement window is 3s; defer a little before it closes
+export const DEFAULT_AUTO_DEFER_AFTER_MS = 2000;
+
+const AUTOCOMPLETE_WINDOW_MS = 3000;
+
+export interface DeferSettings {
+  autoDefer: boolean;         // Defer interactions the agent hasn't answered in time
+  afterMs: number;
+  ephemeral: boolean;         // Show the "thinking..." state only to the user
+}
+
+interface PendingInteraction {
+  interaction: RepliableInteraction;
+  deferring?: Promise<void>;  // An automatic or requested defer in flight
+  deferredEphemeral?: boolean;
+  deferTimer?: NodeJS.Timeout;
+  expiryTimer: NodeJS.Timeout;
+}
+
+export type ReplyOptions = InteractionReplyOptions & { ephemeral?: boolean };
+
+export class PendingInteractions {
+  private entries = new Map<string, PendingInteraction>();
+  private autocompletes = new Map<string, { interaction: AutocompleteInteraction; expiryTimer: NodeJS.Timeout }>();
+
+  constructor(private settings: DeferSettings) {}
+
+  get size(): number {
+    return this.entries.size + this.autocompletes.size;
+  }
+
+  /**
+   * Track a forwarded interaction until its token expires
+   */
+  add(interaction: RepliableInteraction): void {
+    const entry: PendingInteraction = {
+      interaction,
+      expiryTimer: setTimeout(() => this.remove(interaction.id), INTERACTION_TOKEN_LIFETIME_MS)
+    };
+
+    if (this.settings.autoDefer) {
+      entry.deferTimer = setTimeout(() => {
+        entry.deferTimer = undefined;
+        this.defer(interaction.id, this.settings.ephemeral).catch(error => {
+          console.warn(`[Interactions] Could not defer interaction ${interaction.id}: ${error.message}`);
+        });
+      }, this.settings.afterMs);
+    }
+
+    this.entries.set(interaction.id, entry);
+  }
+
+  /**
+   * Track an autocomplete interaction until its response window closes
+   */
+  addAutocomplete(interaction: AutocompleteInteraction): void {
+    this.autocompletes.set(interaction.id, {
+      interaction,
+      expiryTimer: setTimeout(() => this.autocompletes.delete(interaction.id), AUTOCOMPLETE_WINDOW_MS)
+    });
+  }
+
+  has(interactionId: string): boolean {
+    return this.entries.has(interactionId) || this.autocompletes.has(interactionId);
+  }
+
+  /**
+   * The channel an interaction was invoked in, if it is still pending
+   */
+  channelOf(interactionId: string): string | null | undefined {
+    const interaction = this.entries.get(interactionId)?.interaction ?? this.autocompletes.get(interactionId)?.interaction;
+    return interaction ? interaction.channelId : undefined;
+  }
+
+  /**
+   * Answer an autocomplete interaction with up to 25 suggestions for the
+   * option being typed
+   */
+  async respondAutocomplete(interactionId: string, choices: SlashCommandChoice[]): Promise<void> {
+    const entry = this.autocompletes.get(interactionId);
+    if (!entry) {
+      throw new Error('Autocomplete interaction not found or expired');
+    }
+
+    const focused = entry.interaction.options.getFocused(true);
+    const suggestions = buildChoices(choices, focused.type, `Autocomplete for ${focused.name}`);
+
+    clearTimeout(entry.expiryTimer);
+    this.autocompletes.delete(interactionId);
+    await entry.interaction.respond(suggestions);
+  }
+
+  /**
+   * Acknowledge an interaction without answering yet. Does nothing if it
+   * was already acknowledged.
+   */
+  async defer(interactionId: string, ephemeral: boolean = false): Promise<void> {
+    const entry = this.require(interactionId);
+    this.cancelAutoDefer(entry);
+    await entry.deferring;
+
+    const { interaction } = entry;
+    if (interaction.replied || interaction.deferred) return;
+
+    entry.deferredEphemeral = ephemeral;
+    entry.deferring = interaction.deferReply({ ephemeral }).then(() => undefined);
+    try {
+      await entry.deferring;
+    } finally {
+      entry.deferring = undefined;
+    }
+  }
+
+  /**
+   * Answer an interaction. A deferred interaction has its "thinking..."
+   * placeholder replaced; one that was already answered gets a followup.
+   */
+  async reply(interactionId: string, options: ReplyOptions): Promise<Message> {
+    const entry = this.require(interactionId);
+    this.cancelAutoDefer(entry);
+    await entry.deferring;
+
+    const { interaction } = entry;
+    const ephemeral = !!options.ephemeral;
+
+    if (interaction.replied) {
+      return interaction.followUp(options);
+    }
+
+    if (interaction.deferred) {
+      // The placeholder's visibility is fixed; replace it only if it matches
+      if (entry.deferredEphemeral === ephemeral) {
+        const { ephemeral: _ephemeral, flags: _flags, ...edit } = options;
+        return interaction.editReply(edit as InteractionEditReplyOptions);
+      }
+      await interaction.deleteReply();
+      return interaction.followUp(options);
+    }
+
+    const response = await interaction.reply({ ...options, withResponse: true });
+    return response.resource!.message!;
+  }
+
+  async editReply(interactionId: string, options: InteractionEditReplyOptions): Promise<Message> {
+    const { interaction } = await this.acknowledged(interactionId);
+    return interaction.editReply(options);
+  }
+
+  async deleteReply(interactionId: string): Promise<void> {
+    const { interaction } = await this.acknowledged(interactionId);
+    await interaction.deleteReply();
+  }
+
+  async followUp(interactionId: string, options: ReplyOptions): Promise<Message> {
+    const { interaction } = await this.acknowledged(interactionId);
+    return interaction.followUp(options);
+  }
+
+  /**
+   * Show a modal. Only possible as the first response to an interaction; the
+   * submission arrives as a new interaction, so this one is dropped.
+   */
+  async showModal(interactionId: string, modal: ModalBuilder): Promise<void> {
+    const entry = this.require(interactionId);
+    this.cancelAutoDefer(entry);
+    await entry.deferring;
+
+    const { interaction } = entry;
+    if (!('showModal' in interaction) || interaction.replied || interaction.deferred) {
+      throw new Error('A modal can only be the first response to a slash command, button or select menu');
+    }
+
+    await interaction.showModal(modal);
+    this.remove(interactionId);
+  }
+
+  /**
+   * Forget every interaction (when the connection closes)
+   */
+  clear(): void {
+    for (const interactionId of [...this.entries.keys()]) {
+      this.remove(interactionId);
+    }
+    for (const { expiryTimer } of this.autocompletes.values()) {
+      clearTimeout(expiryTimer);
+    }
+    this.autocompletes.clear();
+  }
+
+  private remove(interactionId: string): void {
+    const entry = this.entries.get(interactionId);
+    if (!entry) return;
+    this.cancelAutoDefer(entry);
+    clearTimeout(entry.expiryTimer);
+    this.entries.delete(interactionId);
+  }
+
+  private require(interactionId: string): PendingInteraction {
+    const entry = this.entries.get(interactionId);
+    if (!entry) {
+      throw new Error('Interaction not found or expired');
+    }
+    return entry;
+  }
+
+  /**
+   * An interaction that has been replied to or deferred, as editReply,
+   * deleteReply and followUp require
+   */
+  private async acknowledged(interactionId: string): Promise<PendingInteraction> {
+    const entry = this.require(interactionId);
+    await entry.deferring;
+    if (!entry.interaction.replied && !entry.interaction.deferred) {
+      throw new Error('Interaction has not been replied to or deferred yet');
+    }
+    return entry;
+  }
+
+  private cancelAutoDefer(entry: PendingInteraction): void {
+    if (entry.deferTimer) {
+      clearTimeout(entry.deferTimer);
+      entry.deferTimer = undefined;
+    }
+  }
+}
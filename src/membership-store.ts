@@ -0,0 +1,224 @@
+/**
+ * Channel membership store
+ *
+ * Remembers which channels each agent has joined in a guild, and the last
+ * message it was sent in each, so that after a server restart a
+ * reconnecting agent is joined to its channels again and only gets the
+ * messages it hasn't seen. Membership is keyed by agent name and guild,
+ * and shared by all connections of the agent to that guild.
+ *
+ * Two backends: a JSON file (the default) and SQLite, through the optional
+ * better-sqlite3 dependency.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+
+export interface MembershipStoreConfig {
+  type?: 'json' | 'sqlite' | 'none'; // Default 'json'; 'none' keeps membership in memory only
+  file?: string;              // Default discord-membership.json / discord-membership.db
+}
+
+export interface StoredChannel {
+  channelId: string;
+  lastRead?: string;          // ID of the last message the agent was sent
+}
+
+export interface MembershipStore {
+  // The channels an agent has joined in a guild
+  load(agentName: string, guildId: string): StoredChannel[];
+  join(agentName: string, guildId: string, channelId: string): void;
+  leave(agentName: string, guildId: string, channelId: string): void;
+  // Record the last message sent in a joined channel (ignored for others)
+  markRead(agentName: string, guildId: string, channelId: string, messageId: string): void;
+  // Remove a deleted channel for every agent
+  forgetChannel(channelId: string): void;
+  // Write anything pending and release the backend
+  close(): void;
+}
+
+export const DEFAULT_MEMBERSHIP_JSON_FILE = 'discord-membership.json';
+export const DEFAULT_MEMBERSHIP_SQLITE_FILE = 'discord-membership.db';
+
+// How long the JSON store batches read positions before writing them
+const JSON_SAVE_DELAY_MS = 1000;
+
+export function createMembershipStore(config: MembershipStoreConfig = {}): MembershipStore {
+  switch (config.type ?? 'json') {
+    case 'json':
+      return new JsonMembershipStore(config.file ?? DEFAULT_MEMBERSHIP_JSON_FILE);
+    case 'sqlite':
+      return new SqliteMembershipStore(config.file ?? DEFAULT_MEMBERSHIP_SQLITE_FILE);
+    case 'none':
+      return new JsonMembershipStore(undefined);
+    default:
+      throw new Error(`Unknown membership store type: ${config.type} (expected json, sqlite or none)`);
+  }
+}
+
+/**
+ * Whether snowflake `a` is later than snowflake `b`
+ */
+export function isLaterSnowflake(a: string, b: string | undefined): boolean {
+  if (b === undefined) return true;
+  try {
+    return BigInt(a) > BigInt(b);
+  } catch {
+    return a !== b;
+  }
+}
+
+// agent -> guild -> channel -> last read message ID ('' if none yet)
+type JsonMembership = Record<string, Record<string, Record<string, string>>>;
+
+/**
+ * Keeps membership in memory and writes it to a JSON file (if one is given).
+ * Joins and leaves are written at once; read positions, which change with
+ * every message, are batched.
+ */
+class JsonMembershipStore implements MembershipStore {
+  private data: JsonMembership = {};
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private file: string | undefined) {
+    if (file && existsSync(file)) {
+      try {
+        this.data = JSON.parse(readFileSync(file, 'utf8'));
+      } catch (error: any) {
+        console.error(`[Membership] Could not read ${file}: ${error.message}`);
+      }
+    }
+  }
+
+  load(agentName: string, guildId: string): StoredChannel[] {
+    const channels = this.data[agentName]?.[guildId] ?? {};
+    return Object.entries(channels).map(([channelId, lastRead]) => ({ channelId, lastRead: lastRead || undefined }));
+  }
+
+  join(agentName: string, guildId: string, channelId: string): void {
+    const channels = ((this.data[agentName] ??= {})[guildId] ??= {});
+    if (channelId in channels) return;
+    channels[channelId] = '';
+    this.save();
+  }
+
+  leave(agentName: string, guildId: string, channelId: string): void {
+    const channels = this.data[agentName]?.[guildId];
+    if (!channels || !(channelId in channels)) return;
+    delete channels[channelId];
+    this.save();
+  }
+
+  markRead(agentName: string, guildId: string, channelId: string, messageId: string): void {
+    const channels = this.data[agentName]?.[guildId];
+    if (!channels || !(channelId in channels)) return;
+    channels[channelId] = messageId;
+    this.saveSoon();
+  }
+
+  forgetChannel(channelId: string): void {
+    let changed = false;
+    for (const guilds of Object.values(this.data)) {
+      for (const channels of Object.values(guilds)) {
+        if (channelId in channels) {
+          delete channels[channelId];
+          changed = true;
+        }
+      }
+    }
+    if (changed) this.save();
+  }
+
+  close(): void {
+    if (this.saveTimer) this.save();
+  }
+
+  private saveSoon(): void {
+    if (!this.file || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), JSON_SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write the file via a temporary one, so a crash mid-write leaves the
+   * previous state intact
+   */
+  private save(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    if (!this.file) return;
+
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(`${this.file}.tmp`, JSON.stringify(this.data, null, 2));
+      renameSync(`${this.file}.tmp`, this.file);
+    } catch (error: any) {
+      console.error(`[Membership] Could not write ${this.file}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Keeps membership in an SQLite database, one row per joined channel
+ */
+class SqliteMembershipStore implements MembershipStore {
+  private db: BetterSqlite3.Database;
+  private statements: Record<'load' | 'join' | 'leave' | 'markRead' | 'forgetChannel', BetterSqlite3.Statement>;
+
+  constructor(file: string) {
+    let Database: typeof BetterSqlite3;
+    try {
+      // Optional dependency, only needed for this backend
+      Database = require('better-sqlite3');
+    } catch {
+      throw new Error('The sqlite membership store needs the better-sqlite3 package (npm install better-sqlite3)');
+    }
+
+    mkdirSync(dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS memberships (
+        agent TEXT NOT NULL,
+        guild TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        last_read TEXT,
+        PRIMARY KEY (agent, guild, channel)
+      )
+    `);
+
+    this.statements = {
+      load: this.db.prepare('SELECT channel, last_read FROM memberships WHERE agent = ? AND guild = ?'),
+      join: this.db.prepare('INSERT OR IGNORE INTO memberships (agent, guild, channel) VALUES (?, ?, ?)'),
+      leave: this.db.prepare('DELETE FROM memberships WHERE agent = ? AND guild = ? AND channel = ?'),
+      markRead: this.db.prepare('UPDATE memberships SET last_read = ? WHERE agent = ? AND guild = ? AND channel = ?'),
+      forgetChannel: this.db.prepare('DELETE FROM memberships WHERE channel = ?')
+    };
+  }
+
+  load(agentName: string, guildId: string): StoredChannel[] {
+    const rows = this.statements.load.all(agentName, guildId) as Array<{ channel: string; last_read: string | null }>;
+    return rows.map(row => ({ channelId: row.channel, lastRead: row.last_read ?? undefined }));
+  }
+
+  join(agentName: string, guildId: string, channelId: string): void {
+    this.statements.join.run(agentName, guildId, channelId);
+  }
+
+  leave(agentName: string, guildId: string, channelId: string): void {
+    this.statements.leave.run(agentName, guildId, channelId);
+  }
+
+  markRead(agentName: string, guildId: string, channelId: string, messageId: string): void {
+    this.statements.markRead.run(messageId, agentName, guildId, channelId);
+  }
+
+  forgetChannel(channelId: string): void {
+    this.statements.forgetChannel.run(channelId);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
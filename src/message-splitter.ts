@@ -0,0 +1,135 @@
+/**
+ * Message Splitter
+ *
+ * Splits outgoing messages that exceed Discord's 2000 character limit.
+ * Prefers paragraph breaks, then line breaks, then sentence ends, then word
+ * boundaries. Splits outside code fences when possible; a code block that
+ * has to be split is closed at the end of one chunk and reopened (with the
+ * same language tag) at the start of the next.
+ */
+
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const CLOSING_FENCE = '\n```';
+
+// Don't produce chunks smaller than this fraction of the limit when a
+// better boundary is available further back
+const MIN_CHUNK_RATIO = 0.3;
+
+export function splitMessage(content: string, maxLength: number = DISCORD_MESSAGE_LIMIT): string[] {
+  const chunks: string[] = [];
+  let prefix = '';  // Reopened code fence carried over from the previous chunk
+  let rest = content;
+
+  while (true) {
+    const text = prefix + rest;
+    if (text.length <= maxLength) {
+      if (text.trim().length > 0) {
+        chunks.push(text);
+      }
+      break;
+    }
+
+    // Reserve room for closing a code fence at the end of this chunk
+    const window = text.slice(0, maxLength - CLOSING_FENCE.length);
+    const fenceOpeners = computeFenceOpeners(window);
+    const cut = findSplitPoint(window, fenceOpeners, prefix.length);
+
+    let chunk = text.slice(0, cut).replace(/\s+$/, '');
+    const opener = fenceOpeners[cut];
+
+    if (opener) {
+      chunk += CLOSING_FENCE;
+      prefix = `${opener}\n`;
+      rest = text.slice(cut);
+    } else {
+      prefix = '';
+      rest = text.slice(cut).replace(/^\s+/, '');
+    }
+
+    chunks.push(chunk);
+  }
+
+  return chunks;
+}
+
+/**
+ * For each position in the text, the opening fence line if that position is
+ * inside a code block, otherwise null
+ */
+function computeFenceOpeners(text: string): (string | null)[] {
+  const openers: (string | null)[] = new Array(text.length + 1).fill(null);
+  let current: string | null = null;
+  let lineStart = 0;
+
+  while (lineStart <= text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.slice(lineStart, lineEnd);
+    const isFence = FENCE_PATTERN.test(line);
+
+    // The line start keeps the state before the line; the rest of a fence
+    // line belongs to the block it opens or closes
+    openers[lineStart] = current;
+    const lineState = isFence && !current ? line.trim() : current;
+    for (let i = lineStart + 1; i <= lineEnd; i++) {
+      openers[i] = lineState;
+    }
+
+    if (isFence) {
+      current = current ? null : line.trim();
+    }
+
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+
+  return openers;
+}
+
+function findSplitPoint(window: string, fenceOpeners: (string | null)[], minIndex: number): number {
+  const minChunk = Math.max(minIndex + 1, Math.floor(window.length * MIN_CHUNK_RATIO));
+  const outsideFence = (index: number) => !fenceOpeners[index];
+
+  // Paragraph break, line break and sentence end outside code blocks
+  const preferred: RegExp[] = [/\n\s*\n/g, /\n/g, /[.!?]["')\]]*\s+/g];
+  for (const pattern of preferred) {
+    const cut = lastBoundary(window, pattern, minChunk, outsideFence);
+    if (cut !== -1) return cut;
+  }
+
+  // Inside a code block: split between lines, the fence gets reopened
+  const lineCut = lastBoundary(window, /\n/g, minChunk, () => true);
+  if (lineCut !== -1) return lineCut;
+
+  // Word boundary
+  const wordCut = lastBoundary(window, /\s+/g, minChunk, () => true);
+  if (wordCut !== -1) return wordCut;
+
+  // Hard cut, avoiding splitting a surrogate pair
+  let cut = window.length;
+  const code = window.charCodeAt(cut - 1);
+  if (code >= 0xd800 && code <= 0xdbff) cut--;
+  return Math.max(cut, minIndex + 1);
+}
+
+/**
+ * Position just after the last match of the pattern at or beyond minIndex
+ * that satisfies the predicate, or -1
+ */
+function lastBoundary(
+  text: string,
+  pattern: RegExp,
+  minIndex: number,
+  accept: (index: number) => boolean
+): number {
+  let best = -1;
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index! + match[0].length;
+    if (end >= minIndex && end < text.length && accept(end)) {
+      best = end;
+    }
+  }
+  return best;
+}
@@ -9,31 +9,162 @@
  */
 
 import type { IAxonEnvironmentV2 } from 'connectome-ts/src/axon/interfaces-v2';
+import type { ClientFrame, DirectMessageInfo, FileInput, ServerFrame, ThreadInfo } from '../protocol';
 
 interface DiscordConfig {
   serverUrl: string;
   guild: string;
   agent: string;
   botToken?: string;
+  apiKey?: string;
   scrollbackLimit?: number;
+  directMessages?: boolean;  // Receive DMs sent to the bot
 }
 
 interface DiscordCommand {
-  type: 'join' | 'leave' | 'send' | 'registerSlashCommand' | 'unregisterSlashCommand' | 'sendTyping' | 'replyToInteraction';
+  type: 'join' | 'leave' | 'fetchHistory' | 'send' | 'registerSlashCommand' | 'unregisterSlashCommand' | 'sendTyping' | 'replyToInteraction' | 'showModal'
+    | 'respondAutocomplete' | 'deferInteraction' | 'editReply' | 'deleteReply' | 'followUp' | 'createThread' | 'archiveThread' | 'openDM'
+    | 'listForumPosts' | 'createForumPost' | 'crosspost' | 'react' | 'unreact';
   channelId?: string;
   message?: string;
   replyTo?: string;  // Message ID to reply to
+  mentionReplyAuthor?: boolean;  // Ping the replied-to author (default true)
+  nonce?: string;  // Re-sending with the same nonce never posts twice
+  files?: FileInput[];  // Files to upload with the message
   scrollback?: number;
   lastMessageId?: string;
+  // History params (limit is shared with forums)
+  before?: string;
+  after?: string;
   // Slash command params
   commandName?: string;
   description?: string;
   options?: any[];
+  commandType?: 'slash' | 'user' | 'message';  // user/message: context menu commands
   // Interaction params
   interactionId?: string;
   content?: string;
   embed?: any;
+  embeds?: any[];  // Up to 10 embeds, after embed
+  components?: any[][];  // Action rows of buttons and select menus
   ephemeral?: boolean;
+  // Modal params
+  customId?: string;
+  title?: string;
+  fields?: any[];
+  // Autocomplete params
+  choices?: Array<{ name: string; value: string | number }>;
+  // Thread params
+  threadName?: string;
+  messageId?: string;  // Message to start the thread from
+  autoArchiveDuration?: number;
+  private?: boolean;
+  archived?: boolean;
+  locked?: boolean;
+  // Forum params
+  tags?: string[];
+  includeArchived?: boolean;
+  limit?: number;
+  // DM params
+  userId?: string;
+  // Reaction params
+  emoji?: string;
+  // Correlates the server's response with this command
+  requestId?: string;
+}
+
+interface PendingRequest {
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+  timeout: any;
+  arm: () => any;  // (Re)starts the timeout
+}
+
+// How long to wait for the server to answer a command
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Frames that carry a requestId but don't complete the request
+// (e.g. join streams history before confirming with 'joined')
+const PROGRESS_FRAMES = new Set(['history']);
+
+// send_status frames report a queued send's progress, except 'dropped',
+// which ends it
+function isProgressFrame(msg: any): boolean {
+  return PROGRESS_FRAMES.has(msg.type) || (msg.type === 'send_status' && msg.status !== 'dropped');
+}
+
+// Protocol versions this module speaks, offered during auth.
+// Modules are served standalone, so this mirrors SUPPORTED_PROTOCOL_VERSIONS
+// in src/protocol.ts rather than importing it.
+const PROTOCOL_VERSIONS = [1];
+
+// Required fields of each server frame (see ServerFrame in src/protocol.ts)
+const SERVER_FRAME_FIELDS: Record<ServerFrame['type'], string[]> = {
+  'authenticated': ['connectionId', 'protocolVersion'],
+  'resumed': ['connectionId', 'sessionId', 'protocolVersion', 'replayed'],
+  'error': ['error'],
+  'history': ['channelId', 'messages'],
+  'history_fetched': ['channelId', 'count', 'hasMore'],
+  'joined': ['channel'],
+  'left': ['channelId'],
+  'message_sent': ['channelId', 'messageId'],
+  'send_status': ['channelId', 'status'],
+  'message_edited': ['channelId', 'messageId'],
+  'guilds': ['guilds'],
+  'channels': ['guildId', 'channels'],
+  'slash-command-registered': ['name'],
+  'slash-command-unregistered': ['name'],
+  'typing_sent': ['channelId'],
+  'interaction_replied': ['interactionId'],
+  'interaction_deferred': ['interactionId'],
+  'interaction_reply_edited': ['interactionId', 'messageId'],
+  'interaction_reply_deleted': ['interactionId'],
+  'interaction_followup_sent': ['interactionId', 'messageId'],
+  'modal_shown': ['interactionId'],
+  'autocomplete_responded': ['interactionId'],
+  'message': ['payload'],
+  'messageUpdate': ['payload'],
+  'messageDelete': ['payload'],
+  'interaction:slash-command': ['payload'],
+  'interaction:button': ['payload'],
+  'interaction:select': ['payload'],
+  'interaction:modal-submit': ['payload'],
+  'interaction:autocomplete': ['payload'],
+  'interaction:context-menu': ['payload'],
+  'dm_opened': ['channelId', 'dm'],
+  'forum_posts': ['channelId', 'posts'],
+  'message_crossposted': ['channelId', 'messageId'],
+  'reaction_added': ['channelId', 'messageId', 'emoji'],
+  'reaction_removed': ['channelId', 'messageId', 'emoji'],
+  'reactionAdd': ['payload'],
+  'reactionRemove': ['payload'],
+  'thread_created': ['thread'],
+  'thread_updated': ['thread'],
+  'threadCreate': ['payload'],
+  'threadUpdate': ['payload'],
+  'threadDelete': ['payload']
+};
+
+/**
+ * Check a parsed server frame against SERVER_FRAME_FIELDS.
+ * Returns a description of the problem, or undefined if the frame is valid.
+ */
+function validateServerFrame(raw: any): string | undefined {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return 'frame is not a JSON object';
+  }
+  if (typeof raw.type !== 'string') {
+    return "frame is missing a string 'type' field";
+  }
+  const fields = SERVER_FRAME_FIELDS[raw.type as ServerFrame['type']];
+  if (!fields) {
+    return `unknown frame type '${raw.type}'`;
+  }
+  const missing = fields.filter(field => raw[field] === undefined || raw[field] === null);
+  if (missing.length > 0) {
+    return `'${raw.type}' frame is missing ${missing.join(', ')}`;
+  }
+  return undefined;
 }
 
 // Export flag to signal this is an afferent module
@@ -44,16 +175,23 @@ export function createModule(env: IAxonEnvironmentV2): any {
   
   @persistable(1)
   class DiscordAfferent extends BaseAfferent<DiscordConfig, DiscordCommand> {
-    // Bot token stored directly from params (not via @external since it comes from URL)
+    // Credentials stored directly from params (not via @external since they come from URL)
+    // A scoped API key is preferred; the raw bot token is the legacy fallback
+    private apiKey?: string;
     private botToken?: string;
 
     // Runtime state only (rebuilt from VEIL on mount)
     private ws?: any;
+    private protocolVersion?: number;  // Negotiated with the server during auth
+    private sessionId?: string;  // Server session to resume after a reconnect
+    private lastSeq = 0;  // Sequence number of the last event received in the session
     private reconnectTimeout?: any;
     private shouldReconnect = true;
     private connectionAttempts = 0;
     private processedMessagesCache = new Set<string>();
     private initialized = false;
+    private pendingRequests = new Map<string, PendingRequest>();
+    private requestCounter = 0;
 
     // Cache for frequently accessed state (rebuilt from component-state in VEIL)
     private joinedChannelsCache: string[] = [];
@@ -64,7 +202,11 @@ export function createModule(env: IAxonEnvironmentV2): any {
     async setConnectionParams(params: any): Promise<void> {
       console.log('[DiscordAfferent] Setting connection params:', params);
 
-      // Store bot token from params
+      // Store credentials from params
+      if (params.apiKey) {
+        this.apiKey = params.apiKey;
+        console.log('[DiscordAfferent] API key received from params');
+      }
       if (params.token) {
         this.botToken = params.token;
         console.log('[DiscordAfferent] Bot token received from params');
@@ -92,7 +234,7 @@ export function createModule(env: IAxonEnvironmentV2): any {
       }
 
       // Initialize and start immediately since we have everything we need
-      if (!this.initialized && this.context && this.botToken) {
+      if (!this.initialized && this.context && (this.apiKey || this.botToken)) {
         console.log('[DiscordAfferent] Initializing and starting...');
         this.initialized = true;
 
@@ -100,7 +242,7 @@ export function createModule(env: IAxonEnvironmentV2): any {
         await this.initialize(this.context);
         await this.start();
       } else {
-        console.warn('[DiscordAfferent] Cannot initialize - missing context or token');
+        console.warn('[DiscordAfferent] Cannot initialize - missing context or credentials');
       }
     }
     
@@ -160,17 +302,24 @@ export function createModule(env: IAxonEnvironmentV2): any {
 
       if (!this.ws) {
         console.warn('[DiscordAfferent] Cannot process command - not connected');
+        this.failRequest(command, 'Not connected to Discord server');
         return;
       }
 
       switch (command.type) {
         case 'join':
-          this.ws.send(JSON.stringify({
+          if (!command.channelId) {
+            console.warn('[DiscordAfferent] join missing channelId');
+            this.failRequest(command, 'join missing channelId');
+            return;
+          }
+
+          this.sendCommand(command, {
             type: 'join',
             channelId: command.channelId,
             scrollback: command.scrollback || 50,
-            lastMessageId: command.lastMessageId || this.lastReadCache[command.channelId!]
-          }));
+            lastMessageId: command.lastMessageId || this.lastReadCache[command.channelId]
+          });
 
           if (!this.joinedChannelsCache.includes(command.channelId!)) {
             this.joinedChannelsCache.push(command.channelId!);
@@ -193,88 +342,349 @@ export function createModule(env: IAxonEnvironmentV2): any {
           break;
 
         case 'leave':
-          this.ws.send(JSON.stringify({
+          if (!command.channelId) {
+            console.warn('[DiscordAfferent] leave missing channelId');
+            this.failRequest(command, 'leave missing channelId');
+            return;
+          }
+
+          this.sendCommand(command, {
             type: 'leave',
             channelId: command.channelId
-          }));
+          });
 
           // Clear caches when leaving - forces full sync on rejoin
           this.joinedChannelsCache = this.joinedChannelsCache.filter(id => id !== command.channelId);
-          if (command.channelId) {
-            delete this.lastReadCache[command.channelId];
-            delete this.channelNamesCache[command.channelId];
+          delete this.lastReadCache[command.channelId];
+          delete this.channelNamesCache[command.channelId];
+          break;
+
+        case 'fetchHistory':
+          if (!command.channelId) {
+            console.warn('[DiscordAfferent] fetchHistory missing channelId');
+            this.failRequest(command, 'fetchHistory missing channelId');
+            return;
           }
+
+          this.sendCommand(command, {
+            type: 'fetchHistory',
+            channelId: command.channelId,
+            before: command.before,
+            after: command.after,
+            limit: command.limit
+          });
           break;
 
         case 'send':
-          if (!command.message) {
-            console.warn('[DiscordAfferent] Send command missing message');
+          if (!command.channelId || (!command.message && !command.files?.length)) {
+            console.warn('[DiscordAfferent] Send command missing channelId, or message and files');
+            this.failRequest(command, 'Send command missing channelId, or message and files');
             return;
           }
 
-          this.ws.send(JSON.stringify({
+          this.sendCommand(command, {
             type: 'send',
             channelId: command.channelId,
             message: command.message,
-            replyTo: command.replyTo  // Optional reply target
-          }));
+            files: command.files,
+            replyTo: command.replyTo,  // Optional reply target
+            mentionReplyAuthor: command.mentionReplyAuthor,
+            nonce: command.nonce
+          });
           break;
 
         case 'registerSlashCommand':
-          if (!command.commandName || !command.description) {
+          // Context menu commands have no description
+          if (!command.commandName || (!command.description && (command.commandType ?? 'slash') === 'slash')) {
             console.warn('[DiscordAfferent] registerSlashCommand missing required params');
+            this.failRequest(command, 'registerSlashCommand missing required params');
             return;
           }
 
-          this.ws.send(JSON.stringify({
+          this.sendCommand(command, {
             type: 'registerSlashCommand',
             name: command.commandName,
             description: command.description,
-            options: command.options || []
-          }));
+            options: command.options || [],
+            commandType: command.commandType
+          });
           break;
 
         case 'unregisterSlashCommand':
           if (!command.commandName) {
             console.warn('[DiscordAfferent] unregisterSlashCommand missing commandName');
+            this.failRequest(command, 'unregisterSlashCommand missing commandName');
             return;
           }
 
-          this.ws.send(JSON.stringify({
+          this.sendCommand(command, {
             type: 'unregisterSlashCommand',
-            name: command.commandName
-          }));
+            name: command.commandName,
+            commandType: command.commandType
+          });
           break;
 
         case 'sendTyping':
           if (!command.channelId) {
             console.warn('[DiscordAfferent] sendTyping missing channelId');
+            this.failRequest(command, 'sendTyping missing channelId');
             return;
           }
 
-          this.ws.send(JSON.stringify({
+          this.sendCommand(command, {
             type: 'sendTyping',
             channelId: command.channelId
-          }));
+          });
           break;
 
         case 'replyToInteraction':
           if (!command.interactionId) {
             console.warn('[DiscordAfferent] replyToInteraction missing interactionId');
+            this.failRequest(command, 'replyToInteraction missing interactionId');
             return;
           }
 
-          this.ws.send(JSON.stringify({
+          this.sendCommand(command, {
             type: 'replyToInteraction',
             interactionId: command.interactionId,
             content: command.content,
             embed: command.embed,
+            embeds: command.embeds,
+            components: command.components,
             ephemeral: command.ephemeral || false
-          }));
+          });
+          break;
+
+        case 'followUp':
+        case 'editReply':
+          if (!command.interactionId) {
+            console.warn(`[DiscordAfferent] ${command.type} missing interactionId`);
+            this.failRequest(command, `${command.type} missing interactionId`);
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: command.type,
+            interactionId: command.interactionId,
+            content: command.content,
+            embed: command.embed,
+            embeds: command.embeds,
+            components: command.components,
+            ...(command.type === 'followUp' ? { ephemeral: command.ephemeral || false } : {})
+          });
+          break;
+
+        case 'deferInteraction':
+        case 'deleteReply':
+          if (!command.interactionId) {
+            console.warn(`[DiscordAfferent] ${command.type} missing interactionId`);
+            this.failRequest(command, `${command.type} missing interactionId`);
+            return;
+          }
+
+          this.sendCommand(command, command.type === 'deferInteraction'
+            ? { type: 'deferInteraction', interactionId: command.interactionId, ephemeral: command.ephemeral || false }
+            : { type: 'deleteReply', interactionId: command.interactionId });
+          break;
+
+        case 'showModal':
+          if (!command.interactionId || !command.customId || !command.title || !command.fields) {
+            console.warn('[DiscordAfferent] showModal missing interactionId, customId, title or fields');
+            this.failRequest(command, 'showModal missing interactionId, customId, title or fields');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'showModal',
+            interactionId: command.interactionId,
+            customId: command.customId,
+            title: command.title,
+            fields: command.fields
+          });
+          break;
+
+        case 'respondAutocomplete':
+          if (!command.interactionId || !Array.isArray(command.choices)) {
+            console.warn('[DiscordAfferent] respondAutocomplete missing interactionId or choices');
+            this.failRequest(command, 'respondAutocomplete missing interactionId or choices');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'respondAutocomplete',
+            interactionId: command.interactionId,
+            choices: command.choices
+          });
+          break;
+
+        case 'createThread':
+          if (!command.channelId || !command.threadName) {
+            console.warn('[DiscordAfferent] createThread missing channelId or threadName');
+            this.failRequest(command, 'createThread missing channelId or threadName');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'createThread',
+            channelId: command.channelId,
+            name: command.threadName,
+            messageId: command.messageId,
+            autoArchiveDuration: command.autoArchiveDuration,
+            private: command.private
+          });
+          break;
+
+        case 'listForumPosts':
+          if (!command.channelId) {
+            console.warn('[DiscordAfferent] listForumPosts missing channelId');
+            this.failRequest(command, 'listForumPosts missing channelId');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'listForumPosts',
+            channelId: command.channelId,
+            includeArchived: command.includeArchived,
+            limit: command.limit
+          });
+          break;
+
+        case 'createForumPost':
+          if (!command.channelId || !command.threadName || !command.message) {
+            console.warn('[DiscordAfferent] createForumPost missing channelId, threadName or message');
+            this.failRequest(command, 'createForumPost missing channelId, threadName or message');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'createForumPost',
+            channelId: command.channelId,
+            name: command.threadName,
+            message: command.message,
+            tags: command.tags,
+            autoArchiveDuration: command.autoArchiveDuration
+          });
+          break;
+
+        case 'crosspost':
+          if (!command.channelId || !command.messageId) {
+            console.warn('[DiscordAfferent] crosspost missing channelId or messageId');
+            this.failRequest(command, 'crosspost missing channelId or messageId');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'crosspost',
+            channelId: command.channelId,
+            messageId: command.messageId
+          });
+          break;
+
+        case 'react':
+        case 'unreact':
+          if (!command.channelId || !command.messageId || !command.emoji) {
+            console.warn(`[DiscordAfferent] ${command.type} missing channelId, messageId or emoji`);
+            this.failRequest(command, `${command.type} missing channelId, messageId or emoji`);
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: command.type,
+            channelId: command.channelId,
+            messageId: command.messageId,
+            emoji: command.emoji
+          });
+          break;
+
+        case 'openDM':
+          if (!command.userId) {
+            console.warn('[DiscordAfferent] openDM missing userId');
+            this.failRequest(command, 'openDM missing userId');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'openDM',
+            userId: command.userId
+          });
+          break;
+
+        case 'archiveThread':
+          if (!command.channelId) {
+            console.warn('[DiscordAfferent] archiveThread missing channelId');
+            this.failRequest(command, 'archiveThread missing channelId');
+            return;
+          }
+
+          this.sendCommand(command, {
+            type: 'archiveThread',
+            channelId: command.channelId,
+            archived: command.archived,
+            locked: command.locked
+          });
           break;
       }
     }
     
+    // Request/response correlation
+
+    /**
+     * Enqueue a command and resolve with the server frame that answers it
+     * (rejects with the server's error message, or on timeout/disconnect)
+     */
+    private request(command: DiscordCommand): Promise<any> {
+      const requestId = `${command.type}-${Date.now().toString(36)}-${++this.requestCounter}`;
+
+      const response = new Promise<any>((resolve, reject) => {
+        const arm = () => setTimeout(() => {
+          this.pendingRequests.delete(requestId);
+          reject(new Error(`Request ${requestId} timed out`));
+        }, REQUEST_TIMEOUT_MS);
+        this.pendingRequests.set(requestId, { resolve, reject, timeout: arm(), arm });
+      });
+
+      this.enqueueCommand({ ...command, requestId });
+      return response;
+    }
+
+    private sendCommand(command: DiscordCommand, frame: ClientFrame): void {
+      this.ws.send(JSON.stringify(command.requestId ? { ...frame, requestId: command.requestId } : frame));
+    }
+
+    private settleRequest(msg: any): void {
+      const pending = msg.requestId && this.pendingRequests.get(msg.requestId);
+      if (!pending) return;
+
+      // A send being retried may take longer than one timeout
+      if (isProgressFrame(msg)) {
+        clearTimeout(pending.timeout);
+        pending.timeout = pending.arm();
+        return;
+      }
+
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(msg.requestId);
+
+      if (msg.type === 'error') {
+        pending.reject(new Error(msg.error));
+      } else if (msg.type === 'send_status') {
+        pending.reject(new Error(`Message dropped: ${msg.reason}`));
+      } else {
+        pending.resolve(msg);
+      }
+    }
+
+    private failRequest(command: DiscordCommand, reason: string): void {
+      if (!command.requestId) return;
+      this.settleRequest({ type: 'error', requestId: command.requestId, error: reason });
+    }
+
+    private failAllRequests(reason: string): void {
+      for (const requestId of [...this.pendingRequests.keys()]) {
+        this.settleRequest({ type: 'error', requestId, error: reason });
+      }
+    }
+    
     // WebSocket connection management
     
     private async connect(): Promise<void> {
@@ -290,22 +700,45 @@ export function createModule(env: IAxonEnvironmentV2): any {
         this.ws = new WebSocket(serverUrl);
         
         this.ws.onopen = () => {
-          console.log('[DiscordAfferent] WebSocket connected, authenticating...');
-          const config = this.context.config;
-          this.ws.send(JSON.stringify({
-            type: 'auth',
-            token: this.botToken,
-            guild: config.guild || config.guildId,
-            agent: config.agent || config.agentName
-          }));
+          if (this.sessionId) {
+            console.log(`[DiscordAfferent] WebSocket connected, resuming session after event ${this.lastSeq}...`);
+            const resume: ClientFrame = {
+              type: 'resume',
+              token: this.apiKey || this.botToken || '',
+              sessionId: this.sessionId,
+              lastSeq: this.lastSeq
+            };
+            this.ws.send(JSON.stringify(resume));
+          } else {
+            console.log('[DiscordAfferent] WebSocket connected, authenticating...');
+            this.authenticate();
+          }
         };
         
         this.ws.onmessage = async (event: any) => {
+          let msg: any;
           try {
-            const msg = JSON.parse(event.data);
-            await this.handleMessage(msg);
+            msg = JSON.parse(event.data);
           } catch (error) {
             console.error('[DiscordAfferent] Failed to parse message:', error);
+            return;
+          }
+
+          const problem = validateServerFrame(msg);
+          if (problem) {
+            console.error(`[DiscordAfferent] Ignoring malformed frame: ${problem}`);
+            this.handleError('processing', 'Malformed server frame', problem);
+            // Don't leave the command this frame was meant to answer hanging
+            if (typeof msg?.requestId === 'string') {
+              this.settleRequest({ type: 'error', requestId: msg.requestId, error: `Malformed server frame: ${problem}` });
+            }
+            return;
+          }
+
+          try {
+            await this.handleMessage(msg);
+          } catch (error) {
+            console.error('[DiscordAfferent] Failed to handle message:', error);
           }
         };
         
@@ -316,8 +749,16 @@ export function createModule(env: IAxonEnvironmentV2): any {
         
         this.ws.onclose = (event: any) => {
           console.log('[DiscordAfferent] WebSocket closed:', event.code, event.reason);
+          const reconnect = this.shouldReconnect && !event.wasClean && this.running;
+
+          // Requests in flight are answered once the session resumes (the
+          // server keeps their replies); without a session to resume they
+          // never will be
+          if (!reconnect || !this.sessionId) {
+            this.failAllRequests(`Connection closed (${event.code})`);
+          }
           
-          if (this.shouldReconnect && !event.wasClean && this.running) {
+          if (reconnect) {
             this.scheduleReconnect();
           }
         };
@@ -328,13 +769,27 @@ export function createModule(env: IAxonEnvironmentV2): any {
       }
     }
     
+    private authenticate(): void {
+      const config = this.context.config;
+      const auth: ClientFrame = {
+        type: 'auth',
+        token: this.apiKey || this.botToken || '',
+        guild: config.guild || config.guildId,
+        agent: config.agent || config.agentName,
+        protocolVersions: PROTOCOL_VERSIONS,
+        directMessages: config.directMessages === true || config.directMessages === 'true'
+      };
+      this.ws.send(JSON.stringify(auth));
+    }
+
     async handleEvent(event: any): Promise<void> {
       // Handle control panel requests
       switch (event.topic) {
         case 'discord:request-guilds':
           console.log('[DiscordAfferent] Handling request-guilds');
           if (this.ws) {
-            this.ws.send(JSON.stringify({ type: 'listGuilds' }));
+            const frame: ClientFrame = { type: 'listGuilds' };
+            this.ws.send(JSON.stringify(frame));
           } else {
             console.warn('[DiscordAfferent] Cannot list guilds - not connected');
           }
@@ -342,34 +797,48 @@ export function createModule(env: IAxonEnvironmentV2): any {
           
         case 'discord:request-channels':
           console.log('[DiscordAfferent] Handling request-channels');
-          if (this.ws) {
-            this.ws.send(JSON.stringify({ 
-              type: 'listChannels', 
-              guildId: event.payload?.guildId 
-            }));
+          if (this.ws && event.payload?.guildId) {
+            const frame: ClientFrame = { type: 'listChannels', guildId: event.payload.guildId };
+            this.ws.send(JSON.stringify(frame));
           } else {
-            console.warn('[DiscordAfferent] Cannot list channels - not connected');
+            console.warn('[DiscordAfferent] Cannot list channels - not connected or no guildId');
           }
           break;
           
         case 'discord:join-channel':
           console.log('[DiscordAfferent] Handling join-channel');
-          await this.join({ channelId: event.payload?.channelId });
+          await this.join({ channelId: event.payload?.channelId }).catch((error: any) => {
+            console.error('[DiscordAfferent] Join failed:', error.message);
+          });
           break;
           
         case 'discord:leave-channel':
           console.log('[DiscordAfferent] Handling leave-channel');
-          await this.leave({ channelId: event.payload?.channelId });
+          await this.leave({ channelId: event.payload?.channelId }).catch((error: any) => {
+            console.error('[DiscordAfferent] Leave failed:', error.message);
+          });
           break;
       }
     }
     
-    private async handleMessage(msg: any): Promise<void> {
+    private async handleMessage(msg: ServerFrame): Promise<void> {
       console.log('[DiscordAfferent] Received:', msg.type);
+
+      // Events are numbered within the session; skip any already handled
+      if (msg.seq !== undefined) {
+        if (msg.seq <= this.lastSeq) return;
+        this.lastSeq = msg.seq;
+      }
+
+      // Resolve the promise of the command this frame answers, if any
+      this.settleRequest(msg);
       
       switch (msg.type) {
-        case 'authenticated':
+        case 'authenticated': {
           this.connectionAttempts = 0;
+          this.protocolVersion = msg.protocolVersion;
+          this.sessionId = msg.sessionId;
+          this.lastSeq = 0;
           
           const config = this.getComponentState();
           
@@ -382,18 +851,47 @@ export function createModule(env: IAxonEnvironmentV2): any {
               agentName: config.agent || config.agentName,
               guildId: config.guild || config.guildId,
               botUserId: msg.botUserId,
+              protocolVersion: msg.protocolVersion,
+              directMessages: msg.directMessages,
+              rejoining: msg.rejoining,
               reconnect: this.connectionAttempts > 1
             }
           });
           
-          // Auto-join configured channels after authentication
-          if (config.autoJoinChannels && Array.isArray(config.autoJoinChannels)) {
-            console.log(`[DiscordAfferent] Auto-joining ${config.autoJoinChannels.length} channels...`);
-            for (const channelId of config.autoJoinChannels) {
-              await this.join({ channelId });
+          // Auto-join configured channels after authentication. The server
+          // joins the agent's earlier channels again itself (including
+          // those of a session that couldn't be resumed), so skip those.
+          const channelIds = (Array.isArray(config.autoJoinChannels) ? config.autoJoinChannels as string[] : [])
+            .filter(channelId => !msg.rejoining.includes(channelId));
+          if (channelIds.length > 0) {
+            console.log(`[DiscordAfferent] Auto-joining ${channelIds.length} channels...`);
+            for (const channelId of channelIds) {
+              await this.join({ channelId }).catch((error: any) => {
+                console.error(`[DiscordAfferent] Auto-join of ${channelId} failed:`, error.message);
+              });
             }
           }
           break;
+        }
+
+        case 'resumed':
+          // Joined channels are kept; the missed events follow this frame
+          this.connectionAttempts = 0;
+          this.protocolVersion = msg.protocolVersion;
+          console.log(`[DiscordAfferent] Session resumed, ${msg.replayed} missed events to replay`);
+          this.emit({
+            topic: 'discord:resumed',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: {
+              botUserId: msg.botUserId,
+              protocolVersion: msg.protocolVersion,
+              directMessages: msg.directMessages,
+              joinedChannels: msg.joinedChannels,
+              replayed: msg.replayed
+            }
+          });
+          break;
           
         case 'history':
           this.handleHistory(msg);
@@ -421,6 +919,20 @@ export function createModule(env: IAxonEnvironmentV2): any {
           });
           break;
           
+        case 'reactionAdd':
+        case 'reactionRemove':
+          this.emit({
+            topic: 'discord:reaction',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: {
+              ...msg.payload,
+              action: msg.type === 'reactionAdd' ? 'add' : 'remove',
+              streamId: this.buildStreamId(msg.payload.channelName, msg.payload.guildName, msg.payload.thread, msg.payload.dm)
+            }
+          });
+          break;
+
         case 'joined':
           if (msg.channel?.id) {
             if (!this.joinedChannelsCache.includes(msg.channel.id)) {
@@ -453,8 +965,15 @@ export function createModule(env: IAxonEnvironmentV2): any {
         case 'message_sent':
           // Update tracking
           if (msg.channelId && msg.messageId) {
-            this.lastReadCache[msg.channelId] = msg.messageId;
-            this.processedMessagesCache.add(msg.messageId);
+            // Long messages are split by the server; track every part
+            const sentIds: string[] = msg.messageIds || [msg.messageId];
+            for (const id of sentIds) {
+              this.processedMessagesCache.add(id);
+            }
+            this.lastReadCache[msg.channelId] = sentIds[sentIds.length - 1];
+          }
+          if (msg.replyFailed) {
+            console.warn(`[DiscordAfferent] Reply target no longer exists, message ${msg.messageId} was sent without a reply reference`);
           }
           break;
 
@@ -467,7 +986,7 @@ export function createModule(env: IAxonEnvironmentV2): any {
           });
           break;
 
-        case 'interaction:button-click':
+        case 'interaction:button':
           this.emit({
             topic: 'discord:button-click',
             source: { elementId: this.element?.id || 'discord', elementPath: [] },
@@ -476,6 +995,97 @@ export function createModule(env: IAxonEnvironmentV2): any {
           });
           break;
 
+        case 'interaction:select':
+          this.emit({
+            topic: 'discord:select',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: msg.payload
+          });
+          break;
+
+        case 'interaction:modal-submit':
+          this.emit({
+            topic: 'discord:modal-submit',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: msg.payload
+          });
+          break;
+
+        case 'interaction:context-menu': {
+          const { targetMessage, targetUser } = msg.payload;
+          this.emit({
+            topic: 'discord:context-menu',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: {
+              ...msg.payload,
+              // What the command was used on, as text the agent can act on
+              targetContent: targetMessage
+                ? targetMessage.content
+                : `@${targetUser?.displayName || targetUser?.username}`
+            }
+          });
+          break;
+        }
+
+        case 'interaction:autocomplete':
+          this.emit({
+            topic: 'discord:autocomplete',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: msg.payload
+          });
+          break;
+
+        case 'dm_opened':
+          this.channelNamesCache[msg.channelId] = `@${msg.dm.username || msg.dm.userId}`;
+          break;
+
+        case 'forum_posts':
+          for (const post of msg.posts) {
+            this.trackThread(post);
+          }
+          break;
+
+        case 'thread_created':
+          // The server joins the creating agent to its new thread
+          this.trackThread(msg.thread);
+          if (!this.joinedChannelsCache.includes(msg.thread.id)) {
+            this.joinedChannelsCache.push(msg.thread.id);
+          }
+          break;
+
+        case 'thread_updated':
+          this.trackThread(msg.thread);
+          break;
+
+        case 'threadCreate':
+        case 'threadUpdate':
+          this.trackThread(msg.payload.thread);
+          this.emit({
+            topic: msg.type === 'threadCreate' ? 'discord:thread-created' : 'discord:thread-updated',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: {
+              ...msg.payload,
+              streamId: this.buildStreamId(msg.payload.thread.name, msg.payload.guildName, msg.payload.thread)
+            }
+          });
+          break;
+
+        case 'threadDelete':
+          this.joinedChannelsCache = this.joinedChannelsCache.filter(id => id !== msg.payload.thread.id);
+          delete this.lastReadCache[msg.payload.thread.id];
+          this.emit({
+            topic: 'discord:thread-deleted',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: msg.payload
+          });
+          break;
+
         case 'slash-command-registered':
           console.log('[DiscordAfferent] Slash command registered:', msg.name);
           break;
@@ -504,15 +1114,45 @@ export function createModule(env: IAxonEnvironmentV2): any {
           });
           break;
 
+        case 'send_status':
+          // Backpressure: the agent can slow down while its sends are queued
+          this.emit({
+            topic: 'discord:send-status',
+            source: { elementId: this.element?.id || 'discord', elementPath: [] },
+            timestamp: Date.now(),
+            payload: {
+              channelId: msg.channelId,
+              status: msg.status,
+              queueDepth: msg.queueDepth,
+              reason: msg.reason
+            }
+          });
+          break;
+
         case 'error':
+          if (msg.code === 'resume_failed') {
+            // Start a new session; the server joins the old one's channels again
+            console.warn(`[DiscordAfferent] ${msg.error}; authenticating`);
+            this.failAllRequests(msg.error);
+            this.sessionId = undefined;
+            this.lastSeq = 0;
+            this.authenticate();
+            break;
+          }
           console.error('[DiscordAfferent] Server error:', msg.error);
+          // Parts of a split message that were sent before the failure
+          if (Array.isArray(msg.messageIds)) {
+            for (const id of msg.messageIds) {
+              this.processedMessagesCache.add(id);
+            }
+          }
           this.handleError('processing', 'Server error', msg.error);
           break;
       }
     }
     
     private handleHistory(msg: any): void {
-      const { channelId, channelName, guildId, guildName, messages = [] } = msg;
+      const { channelId, channelName, guildId, guildName, thread, dm, messages = [], hasMore = false, cursor = null, upToDate = false } = msg;
       
       console.log(`[DiscordAfferent] Received history for ${channelName}: ${messages.length} messages`);
       
@@ -520,6 +1160,9 @@ export function createModule(env: IAxonEnvironmentV2): any {
       if (channelName && channelId) {
         this.channelNamesCache[channelId] = channelName;
       }
+      if (thread) {
+        this.trackThread(thread);
+      }
       
       // Build message ID map for quick lookup
       const historyMessageIds = new Set(messages.map((m: any) => m.messageId));
@@ -535,11 +1178,18 @@ export function createModule(env: IAxonEnvironmentV2): any {
         payload: {
           channelId,
           channelName,
+          thread: thread || null,
+          dm: dm || null,
+          streamId: this.buildStreamId(channelName, guildName, thread, dm),
+          upToDate,  // Runs up to the channel's latest message
           messages: messages.map((m: any) => ({
             messageId: m.messageId,
             content: m.content,
             rawContent: m.rawContent,
             mentions: m.mentions,
+            attachments: m.attachments || [],
+            embeds: m.embeds || [],
+            components: m.components || [],
             author: m.author,
             authorId: m.authorId,
             isBot: m.isBot
@@ -557,10 +1207,13 @@ export function createModule(env: IAxonEnvironmentV2): any {
         this.processedMessagesCache.add(message.messageId);
       }
       
-      // Update lastRead cache
+      // Update lastRead cache (history fetched further back leaves it alone)
       if (messages.length > 0) {
         const lastMessage = messages[messages.length - 1];
-        this.lastReadCache[channelId] = lastMessage.messageId;
+        const lastRead = this.lastReadCache[channelId];
+        if (!lastRead || BigInt(lastMessage.messageId) > BigInt(lastRead)) {
+          this.lastReadCache[channelId] = lastMessage.messageId;
+        }
       }
       
       // Emit history complete event
@@ -571,7 +1224,9 @@ export function createModule(env: IAxonEnvironmentV2): any {
         payload: {
           channelId,
           channelName,
-          messageCount: messages.length
+          messageCount: messages.length,
+          hasMore,
+          cursor
         }
       });
     }
@@ -587,8 +1242,12 @@ export function createModule(env: IAxonEnvironmentV2): any {
         this.channelNamesCache[msg.channelId] = msg.channelName;
       }
       
+      if (msg.thread) {
+        this.trackThread(msg.thread);
+      }
+      
       // Build stream ID
-      const streamId = this.buildStreamId(msg.channelName, msg.guildName);
+      const streamId = this.buildStreamId(msg.channelName, msg.guildName, msg.thread, msg.dm);
       
       // Emit message event with all fields including mentions
       this.emit({
@@ -604,9 +1263,15 @@ export function createModule(env: IAxonEnvironmentV2): any {
           content: msg.content, // Parsed content with human-readable mentions
           rawContent: msg.rawContent, // Original content with Discord IDs
           mentions: msg.mentions, // Structured mention metadata
+          reply: msg.reply, // Reply information if this is a reply
+          attachments: msg.attachments || [], // Attachment metadata
+          embeds: msg.embeds || [], // Embeds, e.g. from other bots or link previews
+          components: msg.components || [], // Action rows of buttons and select menus
           timestamp: msg.timestamp,
           channelName: msg.channelName,
           guildName: msg.guildName,
+          thread: msg.thread || null, // Thread info (including parent channel) for thread messages
+          dm: msg.dm || null, // The other user, for direct messages
           streamId,
           streamType: 'discord'
         }
@@ -617,7 +1282,33 @@ export function createModule(env: IAxonEnvironmentV2): any {
       this.processedMessagesCache.add(msg.messageId);
     }
     
-    private buildStreamId(channelName?: string, guildName?: string): string {
+    /**
+     * Record a thread's name and its parent channel's name
+     */
+    private trackThread(thread: ThreadInfo): void {
+      this.channelNamesCache[thread.id] = thread.name;
+      if (thread.parentId && thread.parentName) {
+        this.channelNamesCache[thread.parentId] = thread.parentName;
+      }
+    }
+    
+    private buildStreamId(channelName?: string, guildName?: string, thread?: ThreadInfo | null, dm?: DirectMessageInfo | null): string {
+      // One stream per DM conversation, keyed by the other user
+      if (dm) {
+        return `discord:dm:${dm.userId}`;
+      }
+
+      // Threads get their own stream, nested under the parent channel
+      if (thread) {
+        const parentName = thread.parentName
+          || (thread.parentId && this.channelNamesCache[thread.parentId])
+          || thread.parentId
+          || 'unknown';
+        const threadName = channelName || thread.name;
+        return guildName
+          ? `discord:${guildName}:#${parentName}/${threadName}`
+          : `discord:#${parentName}/${threadName}`;
+      }
       if (channelName && guildName) {
         return `discord:${guildName}:#${channelName}`;
       } else if (channelName) {
@@ -658,25 +1349,51 @@ export function createModule(env: IAxonEnvironmentV2): any {
           channelId: { type: 'string', required: true }
         }
       },
+      'fetchHistory': {
+        description: 'Fetch older messages of a channel (before a message, or the latest), or newer ones (after a message)',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          before: { type: 'string', required: false },
+          after: { type: 'string', required: false },
+          limit: { type: 'number', required: false }
+        }
+      },
       'send': {
-        description: 'Send a message to a channel',
+        description: 'Send a message to a channel, optionally as a reply to another message',
         parameters: {
           channelId: { type: 'string', required: true },
-          message: { type: 'string', required: true }
+          message: { type: 'string', required: true },
+          replyTo: { type: 'string', required: false },
+          mentionReplyAuthor: { type: 'boolean', required: false },
+          files: { type: 'array', required: false },
+          nonce: { type: 'string', required: false }
+        }
+      },
+      'sendFile': {
+        description: 'Upload a file to a channel: base64 data, or a path inside the server\'s upload roots',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          filename: { type: 'string', required: true },
+          data: { type: 'string', required: false },
+          path: { type: 'string', required: false },
+          description: { type: 'string', required: false },
+          message: { type: 'string', required: false }
         }
       },
       'registerSlashCommand': {
-        description: 'Register a slash command',
+        description: 'Register a slash command (options may have choices, limits, autocomplete, or be subcommands), or a user/message context menu command',
         parameters: {
           commandName: { type: 'string', required: true },
-          description: { type: 'string', required: true },
-          options: { type: 'array', required: false }
+          description: { type: 'string', required: false },
+          options: { type: 'array', required: false },
+          commandType: { type: 'string', required: false }
         }
       },
       'unregisterSlashCommand': {
-        description: 'Unregister a slash command',
+        description: 'Unregister a slash or context menu command',
         parameters: {
-          commandName: { type: 'string', required: true }
+          commandName: { type: 'string', required: true },
+          commandType: { type: 'string', required: false }
         }
       },
       'sendTyping': {
@@ -691,67 +1408,406 @@ export function createModule(env: IAxonEnvironmentV2): any {
           interactionId: { type: 'string', required: true },
           content: { type: 'string', required: false },
           embed: { type: 'object', required: false },
+          embeds: { type: 'array', required: false },
+          components: { type: 'array', required: false },
           ephemeral: { type: 'boolean', required: false }
         }
+      },
+      'deferInteraction': {
+        description: 'Acknowledge an interaction now and answer it later (the server also does this automatically after ~2s)',
+        parameters: {
+          interactionId: { type: 'string', required: true },
+          ephemeral: { type: 'boolean', required: false }
+        }
+      },
+      'editReply': {
+        description: 'Edit the reply to an interaction',
+        parameters: {
+          interactionId: { type: 'string', required: true },
+          content: { type: 'string', required: false },
+          embeds: { type: 'array', required: false },
+          components: { type: 'array', required: false }
+        }
+      },
+      'deleteReply': {
+        description: 'Delete the reply to an interaction',
+        parameters: {
+          interactionId: { type: 'string', required: true }
+        }
+      },
+      'followUp': {
+        description: 'Send another message in response to an interaction that has been replied to',
+        parameters: {
+          interactionId: { type: 'string', required: true },
+          content: { type: 'string', required: false },
+          embeds: { type: 'array', required: false },
+          components: { type: 'array', required: false },
+          ephemeral: { type: 'boolean', required: false }
+        }
+      },
+      'showModal': {
+        description: 'Answer a slash command, button or select interaction with a modal of text fields',
+        parameters: {
+          interactionId: { type: 'string', required: true },
+          customId: { type: 'string', required: true },
+          title: { type: 'string', required: true },
+          fields: { type: 'array', required: true }
+        }
+      },
+      'respondAutocomplete': {
+        description: 'Suggest up to 25 values for the option a user is typing (answer within 3 seconds)',
+        parameters: {
+          interactionId: { type: 'string', required: true },
+          choices: { type: 'array', required: true }
+        }
+      },
+      'createThread': {
+        description: 'Create a thread in a channel, or from a message in it',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          name: { type: 'string', required: true },
+          messageId: { type: 'string', required: false },
+          autoArchiveDuration: { type: 'number', required: false },
+          private: { type: 'boolean', required: false }
+        }
+      },
+      'listForumPosts': {
+        description: 'List the posts in a forum channel; join a post by its ID to read it',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          includeArchived: { type: 'boolean', required: false },
+          limit: { type: 'number', required: false }
+        }
+      },
+      'createForumPost': {
+        description: 'Create a post in a forum channel, optionally with tags (names or IDs)',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          name: { type: 'string', required: true },
+          message: { type: 'string', required: true },
+          tags: { type: 'array', required: false }
+        }
+      },
+      'crosspost': {
+        description: 'Publish a message in an announcement channel to following servers',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          messageId: { type: 'string', required: true }
+        }
+      },
+      'react': {
+        description: 'React to a message with an emoji (Unicode, or <:name:id> for custom emoji)',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          messageId: { type: 'string', required: true },
+          emoji: { type: 'string', required: true }
+        }
+      },
+      'unreact': {
+        description: 'Remove your reaction from a message',
+        parameters: {
+          channelId: { type: 'string', required: true },
+          messageId: { type: 'string', required: true },
+          emoji: { type: 'string', required: true }
+        }
+      },
+      'openDM': {
+        description: 'Open a direct message conversation with a user; returns the DM channel ID to send to',
+        parameters: {
+          userId: { type: 'string', required: true }
+        }
+      },
+      'archiveThread': {
+        description: 'Archive (and optionally lock) a thread',
+        parameters: {
+          threadId: { type: 'string', required: true },
+          locked: { type: 'boolean', required: false }
+        }
+      },
+      'unarchiveThread': {
+        description: 'Reopen an archived thread',
+        parameters: {
+          threadId: { type: 'string', required: true }
+        }
       }
     };
 
+    // Each action resolves once the server confirms it (or rejects with the server's error)
+
     async join(params: { channelId: string }): Promise<void> {
-      this.enqueueCommand({
+      await this.request({
         type: 'join',
         channelId: params.channelId
       });
     }
 
     async leave(params: { channelId: string }): Promise<void> {
-      this.enqueueCommand({
+      await this.request({
         type: 'leave',
         channelId: params.channelId
       });
     }
 
-    async send(params: { channelId: string; message: string; replyTo?: string }): Promise<void> {
-      this.enqueueCommand({
+    /**
+     * Fetch messages before (default) or after a message; they arrive as
+     * history, and this resolves to how many there were and where to
+     * continue (pass cursor as before/after again while hasMore)
+     */
+    async fetchHistory(params: { channelId: string; before?: string; after?: string; limit?: number }): Promise<{ count: number; hasMore: boolean; cursor: string | null }> {
+      const response = await this.request({
+        type: 'fetchHistory',
+        channelId: params.channelId,
+        before: params.before,
+        after: params.after,
+        limit: params.limit
+      });
+      return { count: response.count, hasMore: response.hasMore, cursor: response.cursor };
+    }
+
+    /**
+     * Send a message; resolves to the ID of the sent message
+     * (the first part, if the server had to split it)
+     */
+    async send(params: { channelId: string; message?: string; files?: FileInput[]; replyTo?: string; mentionReplyAuthor?: boolean; nonce?: string }): Promise<string> {
+      const response = await this.request({
+        type: 'send',
+        channelId: params.channelId,
+        message: params.message,
+        files: params.files,
+        replyTo: params.replyTo,
+        mentionReplyAuthor: params.mentionReplyAuthor,
+        nonce: params.nonce
+      });
+      return response.messageId;
+    }
+
+    /**
+     * Upload a single file, optionally with a message; resolves to the
+     * uploaded attachment (including its Discord URL)
+     */
+    async sendFile(params: { channelId: string; filename: string; data?: string; path?: string; description?: string; message?: string }): Promise<any> {
+      const response = await this.request({
         type: 'send',
         channelId: params.channelId,
         message: params.message,
-        replyTo: params.replyTo
+        files: [{
+          filename: params.filename,
+          data: params.data,
+          path: params.path,
+          description: params.description
+        }]
       });
+      return response.attachments?.[0];
     }
 
-    async registerSlashCommand(params: { commandName: string; description: string; options?: any[] }): Promise<void> {
-      this.enqueueCommand({
+    /**
+     * Register a slash command, or with commandType 'user' or 'message' a
+     * context menu command (used events arrive as discord:context-menu)
+     */
+    async registerSlashCommand(params: { commandName: string; description?: string; options?: any[]; commandType?: 'slash' | 'user' | 'message' }): Promise<void> {
+      await this.request({
         type: 'registerSlashCommand',
         commandName: params.commandName,
         description: params.description,
-        options: params.options
+        options: params.options,
+        commandType: params.commandType
       });
     }
 
-    async unregisterSlashCommand(params: { commandName: string }): Promise<void> {
-      this.enqueueCommand({
+    async unregisterSlashCommand(params: { commandName: string; commandType?: 'slash' | 'user' | 'message' }): Promise<void> {
+      await this.request({
         type: 'unregisterSlashCommand',
-        commandName: params.commandName
+        commandName: params.commandName,
+        commandType: params.commandType
       });
     }
 
     async sendTyping(params: { channelId: string }): Promise<void> {
-      this.enqueueCommand({
+      await this.request({
         type: 'sendTyping',
         channelId: params.channelId
       });
     }
 
-    async replyToInteraction(params: { interactionId: string; content?: string; embed?: any; ephemeral?: boolean }): Promise<void> {
-      this.enqueueCommand({
+    async replyToInteraction(params: { interactionId: string; content?: string; embed?: any; embeds?: any[]; components?: any[][]; ephemeral?: boolean }): Promise<void> {
+      await this.request({
         type: 'replyToInteraction',
         interactionId: params.interactionId,
         content: params.content,
         embed: params.embed,
+        embeds: params.embeds,
+        components: params.components,
+        ephemeral: params.ephemeral
+      });
+    }
+
+    async deferInteraction(params: { interactionId: string; ephemeral?: boolean }): Promise<void> {
+      await this.request({
+        type: 'deferInteraction',
+        interactionId: params.interactionId,
         ephemeral: params.ephemeral
       });
     }
 
+    /**
+     * Edit the reply to an interaction; resolves to the reply's message ID
+     */
+    async editReply(params: { interactionId: string; content?: string; embeds?: any[]; components?: any[][] }): Promise<string> {
+      const response = await this.request({
+        type: 'editReply',
+        interactionId: params.interactionId,
+        content: params.content,
+        embeds: params.embeds,
+        components: params.components
+      });
+      return response.messageId;
+    }
+
+    async deleteReply(params: { interactionId: string }): Promise<void> {
+      await this.request({
+        type: 'deleteReply',
+        interactionId: params.interactionId
+      });
+    }
+
+    /**
+     * Send a followup message; resolves to its message ID
+     */
+    async followUp(params: { interactionId: string; content?: string; embeds?: any[]; components?: any[][]; ephemeral?: boolean }): Promise<string> {
+      const response = await this.request({
+        type: 'followUp',
+        interactionId: params.interactionId,
+        content: params.content,
+        embeds: params.embeds,
+        components: params.components,
+        ephemeral: params.ephemeral
+      });
+      return response.messageId;
+    }
+
+    /**
+     * Show a modal; the submitted values arrive as a discord:modal-submit event
+     */
+    async showModal(params: { interactionId: string; customId: string; title: string; fields: any[] }): Promise<void> {
+      await this.request({
+        type: 'showModal',
+        interactionId: params.interactionId,
+        customId: params.customId,
+        title: params.title,
+        fields: params.fields
+      });
+    }
+
+    /**
+     * Answer a discord:autocomplete event with suggestions
+     */
+    async respondAutocomplete(params: { interactionId: string; choices: Array<{ name: string; value: string | number }> }): Promise<void> {
+      await this.request({
+        type: 'respondAutocomplete',
+        interactionId: params.interactionId,
+        choices: params.choices
+      });
+    }
+
+    /**
+     * Create a thread; resolves to the new thread's ID.
+     * The agent is joined to the thread automatically.
+     */
+    async createThread(params: { channelId: string; name: string; messageId?: string; autoArchiveDuration?: number; private?: boolean }): Promise<string> {
+      const response = await this.request({
+        type: 'createThread',
+        channelId: params.channelId,
+        threadName: params.name,
+        messageId: params.messageId,
+        autoArchiveDuration: params.autoArchiveDuration,
+        private: params.private
+      });
+      return response.thread.id;
+    }
+
+    /**
+     * List a forum's posts; resolves to the posts and the forum's available tags
+     */
+    async listForumPosts(params: { channelId: string; includeArchived?: boolean; limit?: number }): Promise<{ posts: any[]; availableTags: any[] }> {
+      const response = await this.request({
+        type: 'listForumPosts',
+        channelId: params.channelId,
+        includeArchived: params.includeArchived,
+        limit: params.limit
+      });
+      return { posts: response.posts, availableTags: response.availableTags };
+    }
+
+    /**
+     * Create a forum post; resolves to the post's thread ID.
+     * The agent is joined to the post automatically.
+     */
+    async createForumPost(params: { channelId: string; name: string; message: string; tags?: string[] }): Promise<string> {
+      const response = await this.request({
+        type: 'createForumPost',
+        channelId: params.channelId,
+        threadName: params.name,
+        message: params.message,
+        tags: params.tags
+      });
+      return response.thread.id;
+    }
+
+    async crosspost(params: { channelId: string; messageId: string }): Promise<void> {
+      await this.request({
+        type: 'crosspost',
+        channelId: params.channelId,
+        messageId: params.messageId
+      });
+    }
+
+    async react(params: { channelId: string; messageId: string; emoji: string }): Promise<void> {
+      await this.request({
+        type: 'react',
+        channelId: params.channelId,
+        messageId: params.messageId,
+        emoji: params.emoji
+      });
+    }
+
+    async unreact(params: { channelId: string; messageId: string; emoji: string }): Promise<void> {
+      await this.request({
+        type: 'unreact',
+        channelId: params.channelId,
+        messageId: params.messageId,
+        emoji: params.emoji
+      });
+    }
+
+    /**
+     * Open a DM with a user; resolves to the DM channel ID.
+     * Requires directMessages to be enabled for this agent.
+     */
+    async openDM(params: { userId: string }): Promise<string> {
+      const response = await this.request({
+        type: 'openDM',
+        userId: params.userId
+      });
+      return response.channelId;
+    }
+
+    async archiveThread(params: { threadId: string; locked?: boolean }): Promise<void> {
+      await this.request({
+        type: 'archiveThread',
+        channelId: params.threadId,
+        archived: true,
+        locked: params.locked
+      });
+    }
+
+    async unarchiveThread(params: { threadId: string }): Promise<void> {
+      await this.request({
+        type: 'archiveThread',
+        channelId: params.threadId,
+        archived: false
+      });
+    }
+
     // Provide clean serialization for logging
     toJSON() {
       return {
@@ -24,14 +24,20 @@ interface GuildInfo {
 interface ChannelInfo {
   id: string;
   name: string;
-  type: number; // 0 = text, 2 = voice, etc
+  type: number; // 0 = text, 2 = voice, 4 = category, 5 = announcement, 15 = forum, etc
   guildId: string;
   guildName: string;
   position: number;
-  parentId?: string; // Category ID
+  parentId?: string; // Category ID (parent channel ID for threads)
   topic?: string;
+  thread?: { parentName?: string; archived: boolean; appliedTags?: string[] } | null; // Set for threads
+  typeName?: string;
+  availableTags?: Array<{ id: string; name: string; emoji: string | null }>; // Forum channels only
 }
 
+// Channel types listed under categories: text, announcement and forum
+const LISTED_CHANNEL_TYPES = new Set([0, 5, 15]);
+
 interface CategoryInfo {
   id: string;
   name: string;
@@ -555,13 +561,17 @@ export function createModule(env: IAxonEnvironment): typeof env.InteractiveCompo
             parts.push(`  📁 ${category.name}`);
             category.channels.forEach(channel => {
               const joined = this.joinedChannels.has(channel.id) ? ' ✓' : '';
-              parts.push(`    #${channel.name}${joined}`);
+              parts.push(`    ${this.channelLabel(channel)}${joined}`);
+              this.threadsOf(channels, channel.id).forEach(thread => {
+                const threadJoined = this.joinedChannels.has(thread.id) ? ' ✓' : '';
+                parts.push(`      🧵 ${thread.name}${threadJoined}`);
+              });
             });
           });
         } else {
-          channels.forEach(channel => {
+          channels.filter(channel => LISTED_CHANNEL_TYPES.has(channel.type)).forEach(channel => {
             const joined = this.joinedChannels.has(channel.id) ? ' ✓' : '';
-            parts.push(`  #${channel.name}${joined}`);
+            parts.push(`  ${this.channelLabel(channel)}${joined}`);
           });
         }
       }
@@ -612,11 +622,21 @@ export function createModule(env: IAxonEnvironment): typeof env.InteractiveCompo
         parts.push(`${category.name}:`);
         category.channels.forEach(channel => {
           const joined = this.joinedChannels.has(channel.id) ? ' [JOINED]' : '';
-          parts.push(`  #${channel.name}${joined}`);
+          parts.push(`  ${this.channelLabel(channel)}${joined}`);
           parts.push(`    ID: ${channel.id}`);
           if (channel.topic) {
             parts.push(`    Topic: ${channel.topic}`);
           }
+          if (channel.availableTags && channel.availableTags.length > 0) {
+            parts.push(`    Tags: ${channel.availableTags.map(tag => tag.name).join(', ')}`);
+          }
+          this.threadsOf(channels, channel.id).forEach(thread => {
+            const threadJoined = this.joinedChannels.has(thread.id) ? ' [JOINED]' : '';
+            const archived = thread.thread?.archived ? ' (archived)' : '';
+            const tags = this.tagNames(channel, thread.thread?.appliedTags);
+            parts.push(`    🧵 ${thread.name}${tags ? ` [${tags}]` : ''}${archived}${threadJoined}`);
+            parts.push(`      ID: ${thread.id}`);
+          });
         });
         parts.push('');
       });
@@ -641,7 +661,7 @@ export function createModule(env: IAxonEnvironment): typeof env.InteractiveCompo
       
       // Add channels to categories
       channels.forEach(channel => {
-        if (channel.type === 0) { // Text channel
+        if (LISTED_CHANNEL_TYPES.has(channel.type)) { // Text, announcement or forum channel
           if (channel.parentId && categories.has(channel.parentId)) {
             categories.get(channel.parentId)!.channels.push(channel);
           } else {
@@ -662,7 +682,7 @@ export function createModule(env: IAxonEnvironment): typeof env.InteractiveCompo
       if (uncategorized.length > 0) {
         result.unshift({
           id: 'uncategorized',
-          name: 'Text Channels',
+          name: 'Channels',
           channels: uncategorized.sort((a, b) => a.position - b.position)
         });
       }
@@ -670,6 +690,29 @@ export function createModule(env: IAxonEnvironment): typeof env.InteractiveCompo
       return result;
     }
     
+    private channelLabel(channel: ChannelInfo): string {
+      switch (channel.type) {
+        case 5:
+          return `📢 #${channel.name}`;
+        case 15:
+          return `💬 ${channel.name} (forum)`;
+        default:
+          return `#${channel.name}`;
+      }
+    }
+    
+    private tagNames(forum: ChannelInfo, tagIds?: string[]): string {
+      if (!tagIds || !forum.availableTags) return '';
+      return tagIds
+        .map(id => forum.availableTags!.find(tag => tag.id === id)?.name)
+        .filter(Boolean)
+        .join(', ');
+    }
+    
+    private threadsOf(channels: ChannelInfo[], parentId: string): ChannelInfo[] {
+      return channels.filter(channel => channel.thread && channel.parentId === parentId);
+    }
+    
     private findChannel(channelId: string): ChannelInfo | undefined {
       for (const guildChannels of Object.values(this.availableChannels)) {
         const channel = guildChannels.find(c => c.id === channelId);
@@ -695,7 +738,7 @@ export function createModule(env: IAxonEnvironment): typeof env.InteractiveCompo
       const cleanName = channelName.startsWith('#') ? channelName.slice(1) : channelName;
       
       return channels.find(c => 
-        c.type === 0 && c.name.toLowerCase() === cleanName.toLowerCase()
+        (c.type === 0 || c.type === 5) && c.name.toLowerCase() === cleanName.toLowerCase()
       );
     }
     
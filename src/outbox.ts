@@ -0,0 +1,278 @@
+/**
+ * Outbox
+ *
+ * Messages agents send are kept in the outbox until Discord has them.
+ * Transient failures (network errors, Discord 5xx and rate limit responses)
+ * are retried with exponential backoff; permanent ones (missing permissions,
+ * unknown channel, invalid content) fail at once. Pending sends are written
+ * to disk, so they are delivered after a server restart too; sends carrying
+ * file data are the exception and only kept in memory.
+ *
+ * Agents may give a send a nonce. A send repeating the nonce of one that is
+ * still pending waits for the same delivery, and one repeating a delivered
+ * or failed send gets its outcome again, so an agent can safely re-send after
+ * a disconnect without posting twice.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { SendEmbedRequest, SendRequest } from './protocol';
+
+export interface OutboxConfig {
+  file?: string;              // Where pending sends are kept ('' disables persistence)
+  maxAttempts?: number;       // Before a transiently failing send is given up (default 8)
+  baseDelayMs?: number;       // First retry delay, doubled for each attempt (default 1000)
+  maxDelayMs?: number;        // Longest retry delay (default 60000)
+  nonceTtlMs?: number;        // How long outcomes are remembered by nonce (default 10 minutes)
+}
+
+export type OutboxFrame = SendRequest | SendEmbedRequest;
+
+// Whoever asked for a send and should hear how it went
+export interface OutboxRequester {
+  connectionId: string;
+  requestId?: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  agentName: string;
+  frame: OutboxFrame;
+  requesters: OutboxRequester[];
+  attempts: number;
+  createdAt: number;
+  sentIds?: string[];         // Parts of a split send already posted; a retry resumes after them
+}
+
+export type OutboxOutcome<T> = { ok: true; result: T } | { ok: false; error: Error };
+
+export interface OutboxHandlers<T> {
+  // Attempt the send once; throws on failure
+  deliver(entry: OutboxEntry): Promise<T>;
+  // Tell a requester the final outcome
+  report(requester: OutboxRequester, entry: OutboxEntry, outcome: OutboxOutcome<T>): void;
+  // Tell the requesters a failed attempt will be retried
+  retrying?(entry: OutboxEntry, error: Error, delayMs: number): void;
+}
+
+export const DEFAULT_OUTBOX_FILE = 'discord-outbox.json';
+
+// How long changes are batched before the file is written
+const SAVE_DELAY_MS = 1000;
+
+const DEFAULTS = {
+  maxAttempts: 8,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+  nonceTtlMs: 10 * 60 * 1000
+};
+
+// Network failures worth retrying (Node and undici error codes)
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_SOCKET'
+]);
+
+/**
+ * Whether a failed send may succeed if tried again later
+ */
+export function isTransientError(error: any): boolean {
+  if (typeof error?.status === 'number') {
+    return error.status >= 500 || error.status === 429;
+  }
+  return error?.name === 'AbortError' || TRANSIENT_ERROR_CODES.has(error?.code ?? error?.cause?.code);
+}
+
+export class Outbox<T> {
+  private settings: typeof DEFAULTS;
+  private entries = new Map<string, OutboxEntry>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private byNonce = new Map<string, string>(); // Nonce key -> pending entry ID
+  private outcomes = new Map<string, { outcome: OutboxOutcome<T>; expiresAt: number }>(); // Nonce key -> settled outcome
+  private counter = 0;
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(private config: OutboxConfig, private handlers: OutboxHandlers<T>) {
+    this.settings = {
+      maxAttempts: config.maxAttempts ?? DEFAULTS.maxAttempts,
+      baseDelayMs: config.baseDelayMs ?? DEFAULTS.baseDelayMs,
+      maxDelayMs: config.maxDelayMs ?? DEFAULTS.maxDelayMs,
+      nonceTtlMs: config.nonceTtlMs ?? DEFAULTS.nonceTtlMs
+    };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Resume the sends left pending by a previous run
+   */
+  restore(): void {
+    const file = this.file;
+    if (!file || !existsSync(file)) return;
+
+    let saved: OutboxEntry[];
+    try {
+      saved = JSON.parse(readFileSync(file, 'utf8'));
+    } catch (error: any) {
+      console.error(`[Outbox] Could not read ${file}: ${error.message}`);
+      return;
+    }
+
+    for (const entry of saved) {
+      this.track(entry);
+      this.attempt(entry.id);
+    }
+    if (saved.length > 0) {
+      console.log(`[Outbox] Resuming ${saved.length} pending sends from ${file}`);
+    }
+  }
+
+  /**
+   * Queue a send for delivery; the outcome is reported to the requester
+   */
+  submit(agentName: string, frame: OutboxFrame, requester: OutboxRequester): void {
+    const key = frame.nonce !== undefined ? nonceKey(agentName, frame.nonce) : undefined;
+
+    if (key) {
+      const pendingId = this.byNonce.get(key);
+      if (pendingId) {
+        console.log(`[Outbox] Send with nonce ${frame.nonce} from ${agentName} is already pending`);
+        this.entries.get(pendingId)!.requesters.push(requester);
+        this.saveSoon();
+        return;
+      }
+
+      const settled = this.outcomes.get(key);
+      if (settled && settled.expiresAt > Date.now()) {
+        console.log(`[Outbox] Send with nonce ${frame.nonce} from ${agentName} already settled`);
+        this.handlers.report(requester, { id: '', agentName, frame, requesters: [requester], attempts: 0, createdAt: Date.now() }, settled.outcome);
+        return;
+      }
+    }
+
+    const entry: OutboxEntry = {
+      id: `${Date.now().toString(36)}-${(++this.counter).toString(36)}`,
+      agentName,
+      frame,
+      requesters: [requester],
+      attempts: 0,
+      createdAt: Date.now()
+    };
+    this.track(entry);
+    this.saveSoon();
+    this.attempt(entry.id);
+  }
+
+  /**
+   * Stop retry timers and write what is pending (on shutdown); pending sends
+   * stay on disk
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    if (this.saveTimer) this.save();
+  }
+
+  private async attempt(id: string): Promise<void> {
+    this.timers.delete(id);
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    entry.attempts++;
+    try {
+      const result = await this.handlers.deliver(entry);
+      this.settle(entry, { ok: true, result });
+    } catch (error: any) {
+      if (!isTransientError(error) || entry.attempts >= this.settings.maxAttempts) {
+        if (entry.attempts > 1) {
+          error.message = `${error.message} (after ${entry.attempts} attempts)`;
+        }
+        this.settle(entry, { ok: false, error });
+        return;
+      }
+
+      // Exponential backoff with jitter, so retries after an outage spread out
+      const ceiling = Math.min(this.settings.maxDelayMs, this.settings.baseDelayMs * 2 ** (entry.attempts - 1));
+      const delayMs = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+      console.warn(`[Outbox] Send ${id} failed (attempt ${entry.attempts}), retrying in ${delayMs}ms: ${error.message}`);
+      this.handlers.retrying?.(entry, error, delayMs);
+      this.saveSoon();
+      this.timers.set(id, setTimeout(() => this.attempt(id), delayMs));
+    }
+  }
+
+  private settle(entry: OutboxEntry, outcome: OutboxOutcome<T>): void {
+    this.entries.delete(entry.id);
+
+    if (entry.frame.nonce !== undefined) {
+      const key = nonceKey(entry.agentName, entry.frame.nonce);
+      this.byNonce.delete(key);
+      this.outcomes.set(key, { outcome, expiresAt: Date.now() + this.settings.nonceTtlMs });
+      this.pruneOutcomes();
+    }
+
+    this.saveSoon();
+    for (const requester of entry.requesters) {
+      this.handlers.report(requester, entry, outcome);
+    }
+  }
+
+  private track(entry: OutboxEntry): void {
+    this.entries.set(entry.id, entry);
+    if (entry.frame.nonce !== undefined) {
+      this.byNonce.set(nonceKey(entry.agentName, entry.frame.nonce), entry.id);
+    }
+  }
+
+  private pruneOutcomes(): void {
+    const now = Date.now();
+    for (const [key, settled] of this.outcomes) {
+      if (settled.expiresAt <= now) this.outcomes.delete(key);
+    }
+  }
+
+  private get file(): string | undefined {
+    const file = this.config.file ?? DEFAULT_OUTBOX_FILE;
+    return file || undefined;
+  }
+
+  private saveSoon(): void {
+    if (!this.file || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write the pending sends to disk (via a temporary file, so a crash
+   * mid-write leaves the previous state intact)
+   */
+  private save(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    const file = this.file;
+    if (!file) return;
+
+    try {
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(`${file}.tmp`, JSON.stringify([...this.entries.values()].filter(isPersisted)));
+      renameSync(`${file}.tmp`, file);
+    } catch (error: any) {
+      console.error(`[Outbox] Could not write ${file}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Whether a pending send is written to disk. Sends with base64 file data
+ * (up to 100 MB each) are kept in memory only, so the file stays small
+ * enough to rewrite.
+ */
+function isPersisted(entry: OutboxEntry): boolean {
+  return !('files' in entry.frame && entry.frame.files?.some(file => file.data !== undefined));
+}
+
+function nonceKey(agentName: string, nonce: string): string {
+  return `${agentName}\u0000${nonce}`;
+}
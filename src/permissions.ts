@@ -0,0 +1,105 @@
+/**
+ * API key scopes for AXON connections
+ *
+ * Keys are defined in config.yaml (discord.apiKeys) and restrict what a
+ * connection may do: which guilds it may authenticate against, which channels
+ * it may read or write, and which AXON operations it may invoke.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+export interface ApiKeyConfig {
+  key: string;
+  agent?: string;             // Only this agent name may use the key
+  guilds?: string[];          // Allowed guild IDs (omit for all)
+  channels?: string[];        // Channels allowed for every operation (omit for all)
+  readOnlyChannels?: string[]; // Channels the agent may join and read but not post to
+  operations?: string[];      // Allowed AXON operations (omit for all)
+  directMessages?: boolean;   // Allow receiving and sending DMs (default false)
+}
+
+export interface ConnectionScopes {
+  keyName: string;
+  guilds?: Set<string>;
+  channels?: Set<string>;
+  readOnlyChannels: Set<string>;
+  operations?: Set<string>;
+  directMessages: boolean;
+}
+
+// Operations that only read from a channel; allowed on readOnlyChannels
+const READ_OPERATIONS = new Set(['join', 'leave', 'fetchHistory']);
+
+export function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Find the API key matching a presented token
+ */
+export function findApiKey(apiKeys: ApiKeyConfig[] | undefined, token: string): ApiKeyConfig | undefined {
+  if (!apiKeys) return undefined;
+  return apiKeys.find(apiKey => typeof apiKey.key === 'string' && tokensMatch(token, apiKey.key));
+}
+
+export function scopesFromApiKey(apiKey: ApiKeyConfig): ConnectionScopes {
+  return {
+    keyName: apiKey.agent || `${apiKey.key.slice(0, 4)}…`,
+    guilds: apiKey.guilds ? new Set(apiKey.guilds) : undefined,
+    channels: apiKey.channels ? new Set(apiKey.channels) : undefined,
+    readOnlyChannels: new Set(apiKey.readOnlyChannels || []),
+    operations: apiKey.operations ? new Set(apiKey.operations) : undefined,
+    directMessages: apiKey.directMessages === true
+  };
+}
+
+export function isGuildAllowed(scopes: ConnectionScopes | undefined, guildId: string): boolean {
+  return !scopes?.guilds || scopes.guilds.has(guildId);
+}
+
+/**
+ * The channel a command targets, when it has been resolved
+ */
+export interface ScopeTarget {
+  channelId?: string;         // For commands without a channelId (interaction replies)
+  parentId?: string | null;   // Parent channel of a thread
+  isDirectMessage?: boolean;
+}
+
+/**
+ * Check an inbound AXON command against a connection's scopes.
+ * Threads are checked against their parent channel; DM channels are governed
+ * by the key's directMessages flag rather than its channel lists.
+ * Returns a reason string if the command is not permitted.
+ */
+export function checkScope(scopes: ConnectionScopes | undefined, msg: any, target?: ScopeTarget): string | undefined {
+  if (!scopes) return undefined;
+
+  const operation = msg.type;
+  if (scopes.operations && !scopes.operations.has(operation)) {
+    return `operation '${operation}' is not permitted`;
+  }
+
+  if (msg.guildId && !isGuildAllowed(scopes, msg.guildId)) {
+    return `guild ${msg.guildId} is not permitted`;
+  }
+
+  if (operation === 'openDM' || target?.isDirectMessage) {
+    return scopes.directMessages ? undefined : 'direct messages are not permitted';
+  }
+
+  const channelId = target?.parentId || msg.channelId || target?.channelId;
+  if (channelId) {
+    if (scopes.readOnlyChannels.has(channelId)) {
+      if (!READ_OPERATIONS.has(operation)) {
+        return `channel ${channelId} is read-only`;
+      }
+    } else if (scopes.channels && !scopes.channels.has(channelId)) {
+      return `channel ${channelId} is not permitted`;
+    }
+  }
+
+  return undefined;
+}
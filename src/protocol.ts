@@ -0,0 +1,859 @@
+/**
+ * AXON WebSocket Protocol
+ *
+ * Single definition of every frame exchanged between CombinedDiscordAxonServer
+ * and DiscordAfferent. Client frames (agent -> server) are validated at runtime
+ * by the server; server frames are type-checked where they are built and
+ * validated by the afferent on receipt.
+ *
+ * Bump PROTOCOL_VERSION for incompatible changes and keep the previous version
+ * in SUPPORTED_PROTOCOL_VERSIONS for as long as it is still served.
+ */
+
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS = [1];
+
+// Shared payload types
+
+export interface MentionMetadata {
+  users: Array<{ id: string; username: string; displayName: string; bot: boolean }>;
+  channels: Array<{ id: string; name: string; type: number }>;
+  roles: Array<{ id: string; name: string; color: number }>;
+}
+
+export interface ReplyInfo {
+  messageId: string;
+  author?: string;
+  authorId?: string;
+}
+
+export interface ThreadInfo {
+  id: string;
+  name: string;
+  parentId: string | null;    // Channel the thread belongs to
+  parentName?: string;
+  archived: boolean;
+  locked: boolean;
+  private: boolean;
+  appliedTags?: string[];     // Forum posts only: IDs of the post's tags
+}
+
+export interface ForumTagInfo {
+  id: string;
+  name: string;
+  emoji: string | null;       // Unicode emoji or custom emoji ID
+  moderated: boolean;         // Only moderators can apply it
+}
+
+export interface ForumPostSummary extends ThreadInfo {
+  ownerId: string | null;
+  messageCount: number | null;
+  createdAt: string | null;
+}
+
+// Channel kinds reported by listChannels alongside the numeric Discord type
+export type ChannelTypeName =
+  | 'text'
+  | 'announcement'
+  | 'forum'
+  | 'category'
+  | 'voice'
+  | 'stage'
+  | 'thread'
+  | 'dm'
+  | 'other';
+
+export interface AttachmentInfo {
+  id: string;
+  filename: string;
+  contentType: string | null;
+  size: number;               // Bytes
+  url: string;
+  proxyUrl: string;
+  width: number | null;       // Images and videos only
+  height: number | null;
+  description: string | null; // Alt text
+  spoiler: boolean;
+  inlined?: boolean;          // Text content was appended to the message content
+}
+
+export interface EmbedInfo {
+  type: string;               // rich, link, image, video, article, ...
+  title: string | null;
+  description: string | null;
+  url: string | null;
+  color: number | null;
+  timestamp: string | null;
+  author: { name: string; url: string | null } | null;
+  fields: Array<{ name: string; value: string; inline: boolean }>;
+  footer: { text: string } | null;
+  image: string | null;       // Image URL
+  thumbnail: string | null;   // Thumbnail URL
+  provider: string | null;    // Site that produced a link preview, e.g. YouTube
+}
+
+export type MessageComponentKind =
+  | 'button'
+  | 'string-select'
+  | 'user-select'
+  | 'role-select'
+  | 'mentionable-select'
+  | 'channel-select'
+  | 'other';
+
+export interface MessageComponentInfo {
+  kind: MessageComponentKind;
+  customId: string | null;    // null for link buttons
+  disabled: boolean;
+  label?: string | null;      // Buttons
+  style?: string;             // Buttons: primary, secondary, success, danger, link, premium
+  url?: string | null;        // Link buttons
+  emoji?: string | null;
+  placeholder?: string | null; // Select menus
+  options?: Array<{ label: string; value: string; description: string | null }>; // String selects
+}
+
+export interface FileInput {
+  filename?: string;          // Defaults to the basename of path
+  data?: string;              // Base64 file content...
+  path?: string;              // ...or a path inside the server's upload roots
+  description?: string;       // Alt text
+  spoiler?: boolean;
+}
+
+export interface DirectMessageInfo {
+  userId: string;             // The user on the other end of the DM
+  username?: string;
+}
+
+export interface ThreadEventPayload {
+  thread: ThreadInfo;
+  guildId: string;
+  guildName?: string;
+  ownerId?: string | null;
+  newlyCreated?: boolean;     // threadCreate only: false when the bot was merely added to an existing thread
+}
+
+export interface ReactionEmoji {
+  id: string | null;          // Custom emoji ID; null for Unicode emoji
+  name: string | null;        // The Unicode emoji, or the custom emoji's name
+  animated: boolean;
+}
+
+export interface ReactionSummary {
+  emoji: ReactionEmoji;
+  count: number;
+  me: boolean;                // Whether the bot has reacted with this emoji
+}
+
+export interface ReactionPayload {
+  channelId: string;
+  messageId: string;
+  messageAuthorId?: string;
+  emoji: ReactionEmoji;
+  user?: string;              // Who added or removed the reaction
+  userId: string;
+  isBot: boolean;
+  reactions: ReactionSummary[]; // All reactions on the message after the change
+  timestamp: string;
+  guildId: string | null;
+  guildName?: string;
+  channelName: string;
+  thread: ThreadInfo | null;
+  dm: DirectMessageInfo | null;
+}
+
+export interface MessagePayload {
+  channelId: string;
+  messageId: string;
+  author: string;
+  authorId: string;
+  isBot: boolean;
+  content: string;          // Parsed content with human-readable mentions
+  rawContent: string;       // Original content with Discord IDs
+  mentions: MentionMetadata;
+  reply: ReplyInfo | null;
+  attachments: AttachmentInfo[];
+  embeds: EmbedInfo[];
+  components: MessageComponentInfo[][]; // Action rows of buttons and select menus
+  timestamp: string;
+  guildId: string | null;
+  guildName?: string;
+  channelName: string;
+  thread: ThreadInfo | null;  // Set when the message is in a thread
+  dm: DirectMessageInfo | null; // Set when the message is a direct message
+}
+
+export interface MessageUpdatePayload {
+  channelId: string;
+  messageId: string;
+  author?: string;
+  authorId?: string;
+  isBot: boolean;
+  content: string;
+  rawContent: string | null;
+  oldContent: string;
+  rawOldContent: string | null;
+  mentions: MentionMetadata | null;
+  attachments: AttachmentInfo[];
+  embeds: EmbedInfo[];
+  components: MessageComponentInfo[][];
+  timestamp?: string;
+  guildId: string | null;
+  guildName?: string;
+  channelName: string;
+  thread: ThreadInfo | null;
+  dm: DirectMessageInfo | null;
+}
+
+export interface MessageDeletePayload {
+  channelId: string;
+  messageId: string;
+  author?: string;
+  authorId?: string;
+  isBot: boolean;
+  timestamp: string;
+  guildId: string | null;
+  guildName?: string;
+  channelName: string;
+  thread: ThreadInfo | null;
+  dm: DirectMessageInfo | null;
+}
+
+export interface HistoryMessage {
+  channelId: string;
+  messageId: string;
+  author: string;
+  authorId: string;
+  isBot: boolean;
+  content: string;
+  rawContent: string;
+  mentions: MentionMetadata;
+  attachments: AttachmentInfo[];
+  embeds: EmbedInfo[];
+  components: MessageComponentInfo[][];
+  timestamp: string;
+}
+
+export interface ChannelSummary {
+  id: string;
+  name: string;
+  type: number;
+  guildId: string | null;     // null for DM channels
+  guildName?: string;
+  parentId?: string | null;
+  position?: number;
+  typeName?: ChannelTypeName;
+  topic?: string | null;
+  thread?: ThreadInfo | null;
+  availableTags?: ForumTagInfo[]; // Forum channels only
+}
+
+export interface GuildSummary {
+  id: string;
+  name: string;
+  icon: string | null;
+  memberCount: number;
+}
+
+export interface EmbedInput {
+  title?: string;
+  description?: string;
+  url?: string;               // Makes the title a link
+  color?: number;
+  timestamp?: string | number; // ISO date or epoch milliseconds, shown in the footer
+  author?: { name: string; url?: string; iconUrl?: string };
+  footer?: { text: string; iconUrl?: string };
+  image?: string;             // Image URL (or attachment://filename)
+  thumbnail?: string;
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+}
+
+export interface ButtonInput {
+  type?: 'button';
+  customId?: string;          // Required except for link buttons
+  label: string;
+  style?: string;             // primary (default), secondary, success, danger or link
+  emoji?: string;
+  url?: string;               // Makes this a link button, which sends no interaction
+  disabled?: boolean;
+}
+
+export type SelectMenuKind = Exclude<MessageComponentKind, 'button' | 'other'>;
+
+export interface SelectMenuInput {
+  type: SelectMenuKind;
+  customId: string;
+  placeholder?: string;
+  minValues?: number;
+  maxValues?: number;
+  disabled?: boolean;
+  options?: Array<{ label: string; value: string; description?: string; emoji?: string; default?: boolean }>; // string-select only
+  channelTypes?: ChannelTypeName[]; // channel-select only
+}
+
+export type ComponentInput = ButtonInput | SelectMenuInput;
+
+export interface ModalFieldInput {
+  customId: string;
+  label: string;
+  style?: 'short' | 'paragraph';
+  placeholder?: string;
+  value?: string;             // Pre-filled text
+  required?: boolean;         // Default true
+  minLength?: number;
+  maxLength?: number;
+}
+
+export type SlashCommandOptionType =
+  | 'string' | 'integer' | 'number' | 'boolean' | 'user' | 'channel' | 'role' | 'mentionable' | 'attachment'
+  | 'subcommand' | 'subcommand-group';
+
+export interface SlashCommandChoice {
+  name: string;               // Shown to the user
+  value: string | number;     // Sent back as the option value
+}
+
+export interface SlashCommandOptionInput {
+  name: string;
+  description: string;
+  type: SlashCommandOptionType | string;
+  required?: boolean;
+  choices?: SlashCommandChoice[];   // string, integer and number only
+  autocomplete?: boolean;           // Ask the agent for suggestions as the user types
+  minValue?: number;                // integer and number only
+  maxValue?: number;
+  minLength?: number;               // string only
+  maxLength?: number;
+  channelTypes?: ChannelTypeName[]; // channel only
+  options?: SlashCommandOptionInput[]; // subcommand and subcommand-group only
+}
+
+export interface SlashCommandOptionValue {
+  name: string;
+  type: number;               // Discord ApplicationCommandOptionType
+  value: unknown;             // IDs for user, channel, role, mentionable and attachment options
+  focused?: boolean;          // The option being typed (autocomplete only)
+  attachment?: { id: string; filename: string; contentType: string | null; size: number; url: string };
+}
+
+export interface SlashCommandInteractionPayload {
+  interactionId: string;
+  commandName: string;
+  subcommandGroup: string | null;
+  subcommand: string | null;
+  options: SlashCommandOptionValue[]; // Options of the invoked subcommand
+  user: string;
+  userId: string;
+  channelId: string;
+  guildId: string | null;
+}
+
+export type CommandType = 'slash' | 'user' | 'message';
+
+// Progress of a send through the outbound queue: queued (waiting for the
+// rate limit), sent (left the queue), retrying (a transient failure, tried
+// again after retryInMs), or dropped (queue full, not sent)
+export type SendStatus = 'queued' | 'sent' | 'retrying' | 'dropped';
+
+export interface ContextMenuInteractionPayload {
+  interactionId: string;
+  commandName: string;
+  commandType: Exclude<CommandType, 'slash'>;
+  targetId: string;           // The message or user the command was used on
+  targetMessage: HistoryMessage | null; // Message commands only
+  targetUser: { id: string; username: string; displayName: string; isBot: boolean } | null; // User commands only
+  user: string;
+  userId: string;
+  channelId: string;
+  guildId: string | null;
+}
+
+export interface AutocompleteInteractionPayload {
+  interactionId: string;
+  commandName: string;
+  subcommandGroup: string | null;
+  subcommand: string | null;
+  focused: { name: string; value: string }; // The option being typed and its partial value
+  options: SlashCommandOptionValue[];
+  user: string;
+  userId: string;
+  channelId: string;
+  guildId: string | null;
+}
+
+export interface ButtonInteractionPayload {
+  interactionId: string;
+  customId: string;
+  user: string;
+  userId: string;
+  channelId: string;
+  guildId: string | null;
+  messageId: string;
+}
+
+export interface SelectInteractionPayload {
+  interactionId: string;
+  customId: string;
+  kind: SelectMenuKind;
+  values: string[];           // Option values, or user/role/channel IDs
+  resolved: Array<{ id: string; name: string }>; // Names of selected users, roles and channels
+  user: string;
+  userId: string;
+  channelId: string;
+  guildId: string | null;
+  messageId: string;
+}
+
+export interface ModalSubmitInteractionPayload {
+  interactionId: string;
+  customId: string;
+  fields: Record<string, string>; // Text input customId -> submitted value
+  user: string;
+  userId: string;
+  channelId: string | null;
+  guildId: string | null;
+  messageId: string | null;   // Set when the modal was opened from a message component
+}
+
+// Client -> server frames
+
+interface RequestFrame {
+  requestId?: string;
+}
+
+export interface AuthRequest extends RequestFrame {
+  type: 'auth';
+  token: string;
+  guild?: string;
+  agent?: string;
+  protocolVersions?: number[];  // Versions the client speaks; omitted by legacy (v1) clients
+  directMessages?: boolean;     // Receive DMs sent to the bot
+}
+
+// Sent instead of auth to pick up a session after a reconnect
+export interface ResumeRequest extends RequestFrame {
+  type: 'resume';
+  token: string;
+  sessionId: string;            // From the session's 'authenticated' frame
+  lastSeq: number;              // Sequence number of the last event received (0 if none)
+}
+
+export interface JoinRequest extends RequestFrame {
+  type: 'join';
+  channelId: string;
+  scrollback?: number;          // Recent messages to send (default 50)
+  lastMessageId?: string;       // Instead, send every message after this one (up to the server's cap)
+}
+
+// Older (or newer) messages than a point in a channel, e.g. to scroll back
+// past the join point; answered with history frames, then history_fetched
+export interface FetchHistoryRequest extends RequestFrame {
+  type: 'fetchHistory';
+  channelId: string;
+  before?: string;              // Messages before this one (default: before the latest)
+  after?: string;               // Or messages after this one
+  limit?: number;               // Default 50, at most the server's cap
+}
+
+export interface LeaveRequest extends RequestFrame {
+  type: 'leave';
+  channelId: string;
+}
+
+export interface SendRequest extends RequestFrame {
+  type: 'send';
+  channelId: string;
+  message?: string;           // Required unless files are attached
+  files?: FileInput[];        // Attached to the last part of a split message
+  replyTo?: string;
+  mentionReplyAuthor?: boolean;
+  nonce?: string;             // Re-sending with the same nonce never posts twice
+}
+
+export interface ListGuildsRequest extends RequestFrame {
+  type: 'listGuilds';
+}
+
+export interface ListChannelsRequest extends RequestFrame {
+  type: 'listChannels';
+  guildId: string;
+}
+
+export interface RegisterSlashCommandRequest extends RequestFrame {
+  type: 'registerSlashCommand';
+  name: string;
+  description?: string;       // Required for slash commands
+  options?: SlashCommandOptionInput[]; // Slash commands only
+  commandType?: CommandType;  // Default 'slash'; 'user' and 'message' add context menu entries
+}
+
+export interface UnregisterSlashCommandRequest extends RequestFrame {
+  type: 'unregisterSlashCommand';
+  name: string;
+  commandType?: CommandType;
+}
+
+export interface SendTypingRequest extends RequestFrame {
+  type: 'sendTyping';
+  channelId: string;
+}
+
+export interface SendEmbedRequest extends RequestFrame {
+  type: 'sendEmbed';
+  channelId: string;
+  embed?: EmbedInput;
+  embeds?: EmbedInput[];      // Up to 10 embeds in total, after embed
+  buttons?: ButtonInput[];    // Shorthand for rows of up to 5 buttons, before components
+  components?: ComponentInput[][]; // Up to 5 action rows in total
+  nonce?: string;
+}
+
+export interface EditMessageRequest extends RequestFrame {
+  type: 'editMessage';
+  channelId: string;
+  messageId: string;
+  content?: string;
+  embed?: EmbedInput;
+  embeds?: EmbedInput[];
+  buttons?: ButtonInput[];
+  components?: ComponentInput[][]; // Replaces all components; omit both to keep them, [] clears them
+}
+
+export interface ReplyToInteractionRequest extends RequestFrame {
+  type: 'replyToInteraction';
+  interactionId: string;
+  content?: string;
+  embed?: EmbedInput;
+  embeds?: EmbedInput[];
+  components?: ComponentInput[][];
+  ephemeral?: boolean;
+}
+
+export interface DeferInteractionRequest extends RequestFrame {
+  type: 'deferInteraction';
+  interactionId: string;
+  ephemeral?: boolean;        // Show "thinking..." only to the user
+}
+
+export interface EditReplyRequest extends RequestFrame {
+  type: 'editReply';
+  interactionId: string;
+  content?: string;
+  embed?: EmbedInput;
+  embeds?: EmbedInput[];
+  components?: ComponentInput[][];
+}
+
+export interface DeleteReplyRequest extends RequestFrame {
+  type: 'deleteReply';
+  interactionId: string;
+}
+
+export interface FollowUpRequest extends RequestFrame {
+  type: 'followUp';
+  interactionId: string;
+  content?: string;
+  embed?: EmbedInput;
+  embeds?: EmbedInput[];
+  components?: ComponentInput[][];
+  ephemeral?: boolean;
+}
+
+export interface ShowModalRequest extends RequestFrame {
+  type: 'showModal';
+  interactionId: string;      // A slash command, button or select interaction not yet replied to
+  customId: string;
+  title: string;
+  fields: ModalFieldInput[];
+}
+
+export interface RespondAutocompleteRequest extends RequestFrame {
+  type: 'respondAutocomplete';
+  interactionId: string;      // An autocomplete interaction (answer within 3 seconds)
+  choices: SlashCommandChoice[]; // Up to 25 suggestions
+}
+
+export interface CreateThreadRequest extends RequestFrame {
+  type: 'createThread';
+  channelId: string;          // Parent channel
+  name: string;
+  messageId?: string;         // Start the thread from this message
+  autoArchiveDuration?: number; // Minutes: 60, 1440, 4320 or 10080
+  private?: boolean;          // Private thread (ignored when starting from a message)
+}
+
+export interface ArchiveThreadRequest extends RequestFrame {
+  type: 'archiveThread';
+  channelId: string;          // The thread
+  archived?: boolean;         // false to unarchive (default true)
+  locked?: boolean;
+}
+
+export interface ListForumPostsRequest extends RequestFrame {
+  type: 'listForumPosts';
+  channelId: string;          // The forum channel
+  includeArchived?: boolean;
+  limit?: number;             // Max archived posts to include (default 25)
+}
+
+export interface CreateForumPostRequest extends RequestFrame {
+  type: 'createForumPost';
+  channelId: string;          // The forum channel
+  name: string;
+  message: string;            // Content of the post's first message
+  tags?: string[];            // Tag names or IDs
+  autoArchiveDuration?: number;
+}
+
+export interface CrosspostRequest extends RequestFrame {
+  type: 'crosspost';
+  channelId: string;          // The announcement channel
+  messageId: string;
+}
+
+export interface OpenDMRequest extends RequestFrame {
+  type: 'openDM';
+  userId: string;
+}
+
+export interface ReactRequest extends RequestFrame {
+  type: 'react' | 'unreact';
+  channelId: string;
+  messageId: string;
+  emoji: string;              // Unicode emoji, custom emoji ID, or <:name:id>
+}
+
+export type ClientFrame =
+  | AuthRequest
+  | ResumeRequest
+  | JoinRequest
+  | LeaveRequest
+  | FetchHistoryRequest
+  | SendRequest
+  | ListGuildsRequest
+  | ListChannelsRequest
+  | RegisterSlashCommandRequest
+  | UnregisterSlashCommandRequest
+  | SendTypingRequest
+  | SendEmbedRequest
+  | EditMessageRequest
+  | ReplyToInteractionRequest
+  | ShowModalRequest
+  | DeferInteractionRequest
+  | EditReplyRequest
+  | DeleteReplyRequest
+  | FollowUpRequest
+  | RespondAutocompleteRequest
+  | CreateThreadRequest
+  | ArchiveThreadRequest
+  | OpenDMRequest
+  | ListForumPostsRequest
+  | CreateForumPostRequest
+  | CrosspostRequest
+  | ReactRequest;
+
+export type ClientFrameType = ClientFrame['type'];
+
+// Server -> client frames
+
+interface ResponseFrame {
+  requestId?: string;  // Echoed from the command this frame answers
+  seq?: number;        // Position of an event in the session, for resuming
+}
+
+export type ServerFrame = ResponseFrame & (
+  | {
+      type: 'authenticated';
+      connectionId: string;
+      botUserId?: string;
+      protocolVersion: number;
+      directMessages: boolean;  // Whether DMs will be delivered to this connection
+      sessionId: string;        // Resume the session with this after a reconnect
+      rejoining: string[];      // Remembered channels the server joins again; their 'joined' frames follow
+    }
+  | {
+      type: 'resumed';
+      connectionId: string;
+      sessionId: string;
+      botUserId?: string;
+      protocolVersion: number;
+      directMessages: boolean;
+      joinedChannels: string[];
+      replayed: number;         // Missed events that follow this frame
+    }
+  | { type: 'error'; error: string; code?: string; messageIds?: string[]; nonce?: string }
+  | {
+      type: 'history';
+      channelId: string;
+      channelName: string;
+      guildId: string | null;
+      guildName?: string;
+      thread: ThreadInfo | null;
+      dm: DirectMessageInfo | null;
+      messages: HistoryMessage[];   // One page, oldest first
+      hasMore?: boolean;        // There may be more messages beyond this page
+      cursor?: string | null;   // Pass as before/after to fetchHistory to continue in the same direction
+      upToDate?: boolean;       // The page runs up to the channel's latest message
+    }
+  | { type: 'history_fetched'; channelId: string; count: number; hasMore: boolean; cursor: string | null }
+  | { type: 'joined'; channel: ChannelSummary }
+  | { type: 'left'; channelId: string }
+  | {
+      type: 'message_sent';
+      channelId: string;
+      messageId: string;
+      messageIds: string[];
+      content?: string;
+      reply?: { messageId: string; mentionedAuthor: boolean } | null;
+      replyFailed?: boolean;
+      attachments?: AttachmentInfo[]; // Uploaded files, with their Discord URLs
+      coalesced?: number;       // Queued sends merged into this message, when more than one
+      nonce?: string;           // Echoed from the send
+      timestamp: string;
+    }
+  | { type: 'send_status'; channelId: string; status: SendStatus; queueDepth: number; reason?: string; retryInMs?: number; nonce?: string }
+  | { type: 'message_edited'; channelId: string; messageId: string; timestamp: string }
+  | { type: 'guilds'; guilds: GuildSummary[] }
+  | { type: 'channels'; guildId: string; channels: ChannelSummary[] }
+  | { type: 'slash-command-registered'; name: string }
+  | { type: 'slash-command-unregistered'; name: string }
+  | { type: 'typing_sent'; channelId: string }
+  | { type: 'interaction_replied'; interactionId: string; messageId?: string }
+  | { type: 'interaction_deferred'; interactionId: string }
+  | { type: 'interaction_reply_edited'; interactionId: string; messageId: string }
+  | { type: 'interaction_reply_deleted'; interactionId: string }
+  | { type: 'interaction_followup_sent'; interactionId: string; messageId: string }
+  | { type: 'modal_shown'; interactionId: string }
+  | { type: 'autocomplete_responded'; interactionId: string }
+  | { type: 'message'; payload: MessagePayload }
+  | { type: 'messageUpdate'; payload: MessageUpdatePayload }
+  | { type: 'messageDelete'; payload: MessageDeletePayload }
+  | { type: 'interaction:slash-command'; payload: SlashCommandInteractionPayload }
+  | { type: 'interaction:button'; payload: ButtonInteractionPayload }
+  | { type: 'interaction:select'; payload: SelectInteractionPayload }
+  | { type: 'interaction:modal-submit'; payload: ModalSubmitInteractionPayload }
+  | { type: 'interaction:autocomplete'; payload: AutocompleteInteractionPayload }
+  | { type: 'interaction:context-menu'; payload: ContextMenuInteractionPayload }
+  | { type: 'dm_opened'; channelId: string; dm: DirectMessageInfo }
+  | { type: 'forum_posts'; channelId: string; availableTags: ForumTagInfo[]; posts: ForumPostSummary[] }
+  | { type: 'message_crossposted'; channelId: string; messageId: string }
+  | { type: 'reaction_added'; channelId: string; messageId: string; emoji: string }
+  | { type: 'reaction_removed'; channelId: string; messageId: string; emoji: string }
+  | { type: 'reactionAdd'; payload: ReactionPayload }
+  | { type: 'reactionRemove'; payload: ReactionPayload }
+  | { type: 'thread_created'; thread: ThreadInfo }
+  | { type: 'thread_updated'; thread: ThreadInfo }
+  | { type: 'threadCreate'; payload: ThreadEventPayload }
+  | { type: 'threadUpdate'; payload: ThreadEventPayload }
+  | { type: 'threadDelete'; payload: ThreadEventPayload }
+);
+
+export type ServerFrameType = ServerFrame['type'];
+
+// Runtime validation of client frames
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+type FieldRule = FieldType | `${FieldType}?`;
+
+const CLIENT_FRAME_SCHEMAS: { [K in ClientFrameType]: Record<string, FieldRule> } = {
+  auth: { token: 'string', guild: 'string?', agent: 'string?', protocolVersions: 'array?', directMessages: 'boolean?' },
+  resume: { token: 'string', sessionId: 'string', lastSeq: 'number' },
+  join: { channelId: 'string', scrollback: 'number?', lastMessageId: 'string?' },
+  leave: { channelId: 'string' },
+  fetchHistory: { channelId: 'string', before: 'string?', after: 'string?', limit: 'number?' },
+  send: { channelId: 'string', message: 'string?', files: 'array?', replyTo: 'string?', mentionReplyAuthor: 'boolean?', nonce: 'string?' },
+  listGuilds: {},
+  listChannels: { guildId: 'string' },
+  registerSlashCommand: { name: 'string', description: 'string?', options: 'array?', commandType: 'string?' },
+  unregisterSlashCommand: { name: 'string', commandType: 'string?' },
+  sendTyping: { channelId: 'string' },
+  sendEmbed: { channelId: 'string', embed: 'object?', embeds: 'array?', buttons: 'array?', components: 'array?', nonce: 'string?' },
+  editMessage: { channelId: 'string', messageId: 'string', content: 'string?', embed: 'object?', embeds: 'array?', buttons: 'array?', components: 'array?' },
+  replyToInteraction: { interactionId: 'string', content: 'string?', embed: 'object?', embeds: 'array?', components: 'array?', ephemeral: 'boolean?' },
+  showModal: { interactionId: 'string', customId: 'string', title: 'string', fields: 'array' },
+  deferInteraction: { interactionId: 'string', ephemeral: 'boolean?' },
+  editReply: { interactionId: 'string', content: 'string?', embed: 'object?', embeds: 'array?', components: 'array?' },
+  deleteReply: { interactionId: 'string' },
+  followUp: { interactionId: 'string', content: 'string?', embed: 'object?', embeds: 'array?', components: 'array?', ephemeral: 'boolean?' },
+  respondAutocomplete: { interactionId: 'string', choices: 'array' },
+  createThread: { channelId: 'string', name: 'string', messageId: 'string?', autoArchiveDuration: 'number?', private: 'boolean?' },
+  archiveThread: { channelId: 'string', archived: 'boolean?', locked: 'boolean?' },
+  openDM: { userId: 'string' },
+  listForumPosts: { channelId: 'string', includeArchived: 'boolean?', limit: 'number?' },
+  createForumPost: { channelId: 'string', name: 'string', message: 'string', tags: 'array?', autoArchiveDuration: 'number?' },
+  crosspost: { channelId: 'string', messageId: 'string' },
+  react: { channelId: 'string', messageId: 'string', emoji: 'string' },
+  unreact: { channelId: 'string', messageId: 'string', emoji: 'string' }
+};
+
+export type ValidationResult =
+  | { ok: true; frame: ClientFrame }
+  | { ok: false; error: string };
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a parsed client frame against its schema.
+ * Optional fields may be omitted or null; unknown extra fields are ignored.
+ */
+export function validateClientFrame(raw: unknown): ValidationResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { ok: false, error: 'Frame must be a JSON object' };
+  }
+
+  const frame = raw as Record<string, unknown>;
+  if (typeof frame.type !== 'string') {
+    return { ok: false, error: "Frame is missing a string 'type' field" };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(CLIENT_FRAME_SCHEMAS, frame.type)) {
+    return { ok: false, error: `Unknown frame type '${frame.type}'` };
+  }
+
+  if (frame.requestId !== undefined && typeof frame.requestId !== 'string') {
+    return { ok: false, error: "Field 'requestId' must be a string" };
+  }
+
+  const schema = CLIENT_FRAME_SCHEMAS[frame.type as ClientFrameType];
+  for (const [field, rule] of Object.entries(schema)) {
+    const optional = rule.endsWith('?');
+    const type = (optional ? rule.slice(0, -1) : rule) as FieldType;
+    const value = frame[field];
+
+    if (value === undefined || value === null) {
+      if (!optional) {
+        return { ok: false, error: `Invalid '${frame.type}' frame: missing required field '${field}'` };
+      }
+      delete frame[field];
+      continue;
+    }
+
+    if (!matchesType(value, type)) {
+      return { ok: false, error: `Invalid '${frame.type}' frame: field '${field}' must be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type}` };
+    }
+  }
+
+  return { ok: true, frame: frame as unknown as ClientFrame };
+}
+
+/**
+ * Pick the protocol version for a connection from the versions the client offers
+ */
+export function negotiateProtocolVersion(offered: number[] | undefined): number | undefined {
+  // Clients from before versioning speak version 1
+  const candidates = offered && offered.length > 0 ? offered : [1];
+  const common = candidates.filter(version => SUPPORTED_PROTOCOL_VERSIONS.includes(version));
+  return common.length > 0 ? Math.max(...common) : undefined;
+}
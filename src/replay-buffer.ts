@@ -0,0 +1,46 @@
+/**
+ * Session replay buffer
+ *
+ * Numbers the events sent to an AXON connection and keeps the most recent
+ * ones, so a client that reconnects can resume its session and be sent
+ * exactly the events it missed. Only the last `capacity` events are kept;
+ * a client that missed more than that has to start a new session.
+ */
+
+export const DEFAULT_REPLAY_BUFFER_SIZE = 500;
+export const DEFAULT_RESUME_WINDOW_MS = 60 * 1000;
+
+export class ReplayBuffer<T extends object> {
+  private events: Array<T & { seq: number }> = [];
+  private lastSeq = 0;
+
+  constructor(private capacity: number = DEFAULT_REPLAY_BUFFER_SIZE) {}
+
+  // Sequence number of the latest event (0 before the first)
+  get seq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Number an event and keep it for replay; returns the numbered event
+   */
+  record(event: T): T & { seq: number } {
+    const numbered = { ...event, seq: ++this.lastSeq };
+    this.events.push(numbered);
+    if (this.events.length > this.capacity) {
+      this.events.shift();
+    }
+    return numbered;
+  }
+
+  /**
+   * The events after `seq`, or undefined if some of them are no longer kept
+   * (or `seq` is one this buffer never handed out)
+   */
+  since(seq: number): Array<T & { seq: number }> | undefined {
+    if (!Number.isInteger(seq) || seq < 0 || seq > this.lastSeq) return undefined;
+    const oldest = this.events.length > 0 ? this.events[0].seq : this.lastSeq + 1;
+    if (seq + 1 < oldest) return undefined;
+    return this.events.filter(event => event.seq > seq);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Outbound send queue
+ *
+ * Paces the messages agents post so the bot stays under Discord's rate
+ * limits: at most channelLimit messages per channel and globalLimit messages
+ * overall in any sliding window. Sends that can't go out yet wait in a
+ * per-channel queue; channels are served round-robin, and within a channel
+ * the agents (owners) that have sends waiting take turns, so one chatty agent
+ * can't starve the others. Queued plain-text sends from one agent are merged
+ * into a single message when they fit, and a full channel queue drops new
+ * sends instead of growing without bound.
+ */
+
+export interface SendQueueConfig {
+  channelLimit?: number;        // Messages per channel per channelIntervalMs (default 5 per 5000)
+  channelIntervalMs?: number;
+  globalLimit?: number;         // Messages across all channels per globalIntervalMs (default 40 per 1000)
+  globalIntervalMs?: number;
+  maxQueuedPerChannel?: number; // Sends waiting in one channel beyond this are dropped (default 50)
+  coalesce?: boolean;           // Merge an agent's queued plain-text sends (default true)
+}
+
+export interface SendQueueMetrics {
+  queued: number;               // Sends waiting across all channels
+  inFlight: number;
+  sent: number;                 // Totals since startup
+  coalesced: number;
+  dropped: number;
+  channels: Record<string, number>; // Queue depth of each channel with sends waiting
+}
+
+/**
+ * One send: run() posts the message(s) and resolves to its result. Plain
+ * text sends pass their text so they can be coalesced; run() is then called
+ * with the merged text.
+ */
+export interface SendJob<T> {
+  owner: string;                // Agent name
+  cost: number;                 // Discord messages the send posts
+  text?: string;
+  run: (text?: string) => Promise<T>;
+  onQueued?: (depth: number) => void; // The send has to wait
+}
+
+export interface SendResult<T> {
+  result: T;
+  queued: boolean;              // The send waited for the rate limit
+  coalesced: number;            // Sends merged into this message (1 if none)
+}
+
+const DEFAULTS: Required<SendQueueConfig> = {
+  channelLimit: 5,
+  channelIntervalMs: 5000,
+  globalLimit: 40,
+  globalIntervalMs: 1000,
+  maxQueuedPerChannel: 50,
+  coalesce: true
+};
+
+// Discord's message length limit; merged text must still fit one message
+const MAX_COALESCED_LENGTH = 2000;
+
+interface Entry<T> {
+  job: SendJob<T>;
+  queued: boolean;
+  resolve: (result: SendResult<T>) => void;
+  reject: (error: Error) => void;
+}
+
+interface ChannelQueue {
+  owners: Map<string, Entry<any>[]>; // In turn order; the owner served last moves to the back
+  lastOwner?: string;           // Waits its turn while others have sends queued
+  sentAt: number[];             // Times of recent sends, for the sliding window
+  busy: boolean;                // A send is in flight (keeps a channel's messages in order)
+}
+
+export class SendQueue {
+  private settings: Required<SendQueueConfig>;
+  private channels = new Map<string, ChannelQueue>(); // In turn order, like owners
+  private globalSentAt: number[] = [];
+  private timer?: NodeJS.Timeout;
+  private totals = { inFlight: 0, sent: 0, coalesced: 0, dropped: 0 };
+
+  constructor(config: SendQueueConfig = {}) {
+    this.settings = { ...DEFAULTS, ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) };
+  }
+
+  /**
+   * Send now if the rate limits allow, otherwise once they do. Rejects
+   * without sending if the channel's queue is full; errors for sends that
+   * were never attempted carry `dropped: true`.
+   */
+  submit<T>(channelId: string, job: SendJob<T>): Promise<SendResult<T>> {
+    const channel = this.channel(channelId);
+    const depth = this.depth(channel);
+    if (depth >= this.settings.maxQueuedPerChannel) {
+      this.totals.dropped++;
+      return Promise.reject(Object.assign(new Error(`Send queue for channel ${channelId} is full (${depth} waiting)`), { dropped: true }));
+    }
+
+    return new Promise<SendResult<T>>((resolve, reject) => {
+      const entry: Entry<T> = { job, queued: false, resolve, reject };
+      const pending = channel.owners.get(job.owner) ?? [];
+      pending.push(entry);
+      channel.owners.set(job.owner, pending);
+
+      this.pump();
+
+      // Still waiting after pumping: the send is rate limited
+      if (!entry.queued && pending.includes(entry)) {
+        entry.queued = true;
+        job.onQueued?.(this.depth(channel));
+      }
+    });
+  }
+
+  depthOf(channelId: string): number {
+    const channel = this.channels.get(channelId);
+    return channel ? this.depth(channel) : 0;
+  }
+
+  metrics(): SendQueueMetrics {
+    const channels: Record<string, number> = {};
+    let queued = 0;
+    for (const [channelId, channel] of this.channels) {
+      const depth = this.depth(channel);
+      if (depth === 0) continue;
+      channels[channelId] = depth;
+      queued += depth;
+    }
+    return { queued, ...this.totals, channels };
+  }
+
+  /**
+   * Start every send the rate limits allow, and schedule the next attempt
+   * for when a window frees up
+   */
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    prune(this.globalSentAt, now, this.settings.globalIntervalMs);
+
+    let nextAttempt = Infinity;
+    for (const [channelId, channel] of [...this.channels]) {
+      prune(channel.sentAt, now, this.settings.channelIntervalMs);
+      if (this.depth(channel) === 0) {
+        // Forget idle channels once their window is empty
+        if (!channel.busy && channel.sentAt.length === 0) this.channels.delete(channelId);
+        continue;
+      }
+      if (channel.busy) continue;
+      const globalFull = this.globalSentAt.length >= this.settings.globalLimit;
+      const channelFull = channel.sentAt.length >= this.settings.channelLimit;
+      if (globalFull || channelFull) {
+        if (channelFull) nextAttempt = Math.min(nextAttempt, channel.sentAt[0] + this.settings.channelIntervalMs);
+        if (globalFull) nextAttempt = Math.min(nextAttempt, this.globalSentAt[0] + this.settings.globalIntervalMs);
+        continue;
+      }
+
+      // Serve this channel, then move it to the back of the turn order
+      this.channels.delete(channelId);
+      this.channels.set(channelId, channel);
+      this.dispatch(channel, now);
+    }
+
+    if (nextAttempt !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, nextAttempt - Date.now()));
+    }
+  }
+
+  private dispatch(channel: ChannelQueue, now: number): void {
+    const owners = [...channel.owners.keys()];
+    const owner = owners.find(candidate => candidate !== channel.lastOwner) ?? owners[0];
+    const pending = channel.owners.get(owner)!;
+    const batch = this.takeBatch(pending);
+
+    channel.lastOwner = owner;
+    channel.owners.delete(owner);
+    if (pending.length > 0) channel.owners.set(owner, pending); // Back of the turn order
+
+    const { job } = batch[0];
+    const text = batch.length > 1 ? batch.map(entry => entry.job.text).join('\n') : job.text;
+    for (let i = 0; i < job.cost; i++) {
+      channel.sentAt.push(now);
+      this.globalSentAt.push(now);
+    }
+
+    channel.busy = true;
+    this.totals.inFlight++;
+    job.run(text).then(
+      result => {
+        this.totals.sent++;
+        this.totals.coalesced += batch.length - 1;
+        for (const entry of batch) {
+          entry.resolve({ result, queued: entry.queued, coalesced: batch.length });
+        }
+      },
+      error => {
+        for (const entry of batch) entry.reject(error);
+      }
+    ).finally(() => {
+      channel.busy = false;
+      this.totals.inFlight--;
+      this.pump();
+    });
+  }
+
+  /**
+   * The next send of an owner, merged with the plain-text sends queued right
+   * behind it while the result still fits in one message
+   */
+  private takeBatch(pending: Entry<any>[]): Entry<any>[] {
+    const batch = [pending.shift()!];
+    if (!this.settings.coalesce || batch[0].job.text === undefined || batch[0].job.cost !== 1) {
+      return batch;
+    }
+
+    let length = batch[0].job.text.length;
+    while (pending.length > 0) {
+      const next = pending[0].job;
+      if (next.text === undefined || next.cost !== 1 || length + 1 + next.text.length > MAX_COALESCED_LENGTH) break;
+      length += 1 + next.text.length;
+      batch.push(pending.shift()!);
+    }
+    return batch;
+  }
+
+  private channel(channelId: string): ChannelQueue {
+    let channel = this.channels.get(channelId);
+    if (!channel) {
+      channel = { owners: new Map(), sentAt: [], busy: false };
+      this.channels.set(channelId, channel);
+    }
+    return channel;
+  }
+
+  private depth(channel: ChannelQueue): number {
+    let depth = 0;
+    for (const pending of channel.owners.values()) depth += pending.length;
+    return depth;
+  }
+}
+
+/**
+ * Remove send times that have left the window
+ */
+function prune(sentAt: number[], now: number, intervalMs: number): void {
+  while (sentAt.length > 0 && sentAt[0] <= now - intervalMs) sentAt.shift();
+}
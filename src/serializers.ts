@@ -0,0 +1,158 @@
+/**
+ * Serializers
+ *
+ * Convert discord.js objects into the plain payloads sent to AXON clients
+ * (see protocol.ts).
+ */
+
+import { ButtonStyle, ComponentType } from 'discord.js';
+import type { Emoji, Message, MessageActionRowComponent, PartialMessage } from 'discord.js';
+import type {
+  AttachmentInfo,
+  EmbedInfo,
+  MessageComponentInfo,
+  MessageComponentKind,
+  ReactionEmoji,
+  ReactionSummary
+} from './protocol';
+import { parseCustomId } from './components';
+
+// Text files that can be inlined even when Discord reports no text/* type
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'log', 'json', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html',
+  'css', 'js', 'ts', 'tsx', 'jsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'sh', 'sql', 'diff', 'patch'
+]);
+
+const TEXT_CONTENT_TYPES = ['application/json', 'application/xml', 'application/x-yaml', 'application/javascript'];
+
+const INLINE_FETCH_TIMEOUT_MS = 5000;
+
+const COMPONENT_KINDS: Partial<Record<ComponentType, MessageComponentKind>> = {
+  [ComponentType.Button]: 'button',
+  [ComponentType.StringSelect]: 'string-select',
+  [ComponentType.UserSelect]: 'user-select',
+  [ComponentType.RoleSelect]: 'role-select',
+  [ComponentType.MentionableSelect]: 'mentionable-select',
+  [ComponentType.ChannelSelect]: 'channel-select'
+};
+
+export function serializeAttachments(message: Message | PartialMessage): AttachmentInfo[] {
+  return [...message.attachments.values()].map(attachment => ({
+    id: attachment.id,
+    filename: attachment.name,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    url: attachment.url,
+    proxyUrl: attachment.proxyURL,
+    width: attachment.width,
+    height: attachment.height,
+    description: attachment.description,
+    spoiler: attachment.spoiler
+  }));
+}
+
+export function serializeEmbeds(message: Message | PartialMessage): EmbedInfo[] {
+  return message.embeds.map(embed => ({
+    type: embed.data.type ?? 'rich',
+    title: embed.title,
+    description: embed.description,
+    url: embed.url,
+    color: embed.color,
+    timestamp: embed.timestamp,
+    author: embed.author ? { name: embed.author.name, url: embed.author.url ?? null } : null,
+    fields: embed.fields.map(field => ({ name: field.name, value: field.value, inline: !!field.inline })),
+    footer: embed.footer ? { text: embed.footer.text } : null,
+    image: embed.image?.url ?? null,
+    thumbnail: embed.thumbnail?.url ?? null,
+    provider: embed.provider?.name ?? null
+  }));
+}
+
+/**
+ * Action rows of a message, each a list of its buttons and select menus.
+ * Other top-level components (containers, sections, ...) are skipped.
+ */
+export function serializeComponents(message: Message | PartialMessage): MessageComponentInfo[][] {
+  return message.components
+    .filter(row => row.type === ComponentType.ActionRow)
+    .map(row => (row.components as MessageActionRowComponent[]).map(serializeComponent));
+}
+
+function serializeComponent(component: MessageActionRowComponent): MessageComponentInfo {
+  const info: MessageComponentInfo = {
+    kind: COMPONENT_KINDS[component.type] ?? 'other',
+    customId: component.customId && parseCustomId(component.customId).customId, // Without the agent namespace
+    disabled: !!component.disabled
+  };
+
+  if (component.type === ComponentType.Button) {
+    info.label = component.label;
+    info.style = ButtonStyle[component.style]?.toLowerCase();
+    info.url = component.url;
+    info.emoji = component.emoji ? (component.emoji.id ? `<:${component.emoji.name}:${component.emoji.id}>` : component.emoji.name) : null;
+  } else {
+    info.placeholder = component.placeholder;
+    if (component.type === ComponentType.StringSelect) {
+      info.options = component.options.map(option => ({
+        label: option.label,
+        value: option.value,
+        description: option.description ?? null
+      }));
+    }
+  }
+
+  return info;
+}
+
+export function serializeEmoji(emoji: Emoji): ReactionEmoji {
+  return {
+    id: emoji.id,
+    name: emoji.name,
+    animated: !!emoji.animated
+  };
+}
+
+export function serializeReactions(message: Message | PartialMessage): ReactionSummary[] {
+  return [...message.reactions.cache.values()].map(reaction => ({
+    emoji: serializeEmoji(reaction.emoji),
+    count: reaction.count ?? 0,
+    me: reaction.me
+  }));
+}
+
+export function isTextAttachment(attachment: AttachmentInfo): boolean {
+  const contentType = attachment.contentType?.split(';')[0].trim().toLowerCase();
+  if (contentType) {
+    if (contentType.startsWith('text/') || TEXT_CONTENT_TYPES.includes(contentType)) return true;
+  }
+  const extension = attachment.filename.split('.').pop()?.toLowerCase();
+  return !!extension && TEXT_EXTENSIONS.has(extension);
+}
+
+/**
+ * Fetch text attachments no larger than maxBytes and format them for
+ * appending to message content. Attachments that were inlined are marked.
+ * Returns an empty string when nothing was inlined.
+ */
+export async function inlineTextAttachments(attachments: AttachmentInfo[], maxBytes: number): Promise<string> {
+  const blocks: string[] = [];
+
+  for (const attachment of attachments) {
+    if (attachment.size > maxBytes || !isTextAttachment(attachment)) continue;
+
+    try {
+      const response = await fetch(attachment.url, { signal: AbortSignal.timeout(INLINE_FETCH_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const text = (await response.text()).replace(/\s+$/, '');
+      attachment.inlined = true;
+      blocks.push(`[Attachment: ${attachment.filename}]\n\`\`\`\n${text}\n\`\`\``);
+    } catch (error: any) {
+      console.warn(`[Server] Could not inline attachment ${attachment.filename}: ${error.message}`);
+    }
+  }
+
+  return blocks.length > 0 ? `\n\n${blocks.join('\n\n')}` : '';
+}
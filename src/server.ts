@@ -11,22 +11,114 @@ import {
   Client,
   GatewayIntentBits,
   TextChannel,
+  ThreadChannel,
+  DMChannel,
+  NewsChannel,
+  ForumChannel,
+  Partials,
+  ThreadAutoArchiveDuration,
+  ChannelType,
   REST,
   Routes,
-  SlashCommandBuilder,
   CommandInteraction,
   ButtonInteraction,
-  ActionRowBuilder,
-  ButtonBuilder,
-  ButtonStyle,
-  EmbedBuilder,
+  AnySelectMenuInteraction,
+  ApplicationCommandType,
+  AutocompleteInteraction,
+  RepliableInteraction,
   InteractionType,
-  ComponentType
+  EmbedBuilder,
+  ComponentType,
+  Message,
+  MessageEditOptions,
+  SnowflakeUtil,
+  MessageReaction,
+  PartialMessageReaction,
+  PartialUser,
+  User
 } from 'discord.js';
 import WebSocket from 'ws';
 import { AxonModuleServer } from '@connectome/axon-server';
+import { createHash, randomUUID } from 'crypto';
 import { join } from 'path';
 import { loadConfig, DiscordConfig } from './config';
+import { splitMessage } from './message-splitter';
+import {
+  inlineTextAttachments,
+  serializeAttachments,
+  serializeComponents,
+  serializeEmbeds,
+  serializeEmoji,
+  serializeReactions
+} from './serializers';
+import { prepareUploads, uploadLimit } from './uploads';
+import { buildEmbeds, collectEmbeds } from './embeds';
+import { buildComponentRows, buildModal, collectComponentRows, customIdNamespace, parseCustomId } from './components';
+import { DEFAULT_AUTO_DEFER_AFTER_MS, PendingInteractions } from './interactions';
+import { buildContextMenuCommand, buildSlashCommand, commandTypeFor, flattenInvokedOptions } from './slash-commands';
+import { CommandSync, DEFAULT_COMMAND_GRACE_PERIOD_MS } from './command-sync';
+import { SendJob, SendQueue } from './send-queue';
+import { Outbox, OutboxEntry, OutboxOutcome, OutboxRequester } from './outbox';
+import { createMembershipStore, isLaterSnowflake, MembershipStore, StoredChannel } from './membership-store';
+import { DEFAULT_REPLAY_BUFFER_SIZE, DEFAULT_RESUME_WINDOW_MS, ReplayBuffer } from './replay-buffer';
+import {
+  ConnectionScopes,
+  checkScope,
+  findApiKey,
+  isGuildAllowed,
+  scopesFromApiKey,
+  tokensMatch
+} from './permissions';
+import {
+  AttachmentInfo,
+  AuthRequest,
+  ChannelSummary,
+  ChannelTypeName,
+  ComponentInput,
+  EmbedInput,
+  ForumPostSummary,
+  ForumTagInfo,
+  HistoryMessage,
+  DirectMessageInfo,
+  ClientFrame,
+  SelectMenuKind,
+  SendEmbedRequest,
+  SendRequest,
+  ServerFrame,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ThreadInfo,
+  ResumeRequest,
+  negotiateProtocolVersion,
+  validateClientFrame
+} from './protocol';
+
+// WebSocket close codes used when authentication fails
+const CLOSE_AUTH_FAILED = 4001;
+const CLOSE_UNSUPPORTED_PROTOCOL = 4002;
+const CLOSE_GUILD_UNAVAILABLE = 4003;
+const CLOSE_AUTH_TIMEOUT = 4008;
+// ...and when a newer socket resumed the session
+const CLOSE_SESSION_RESUMED = 4009;
+// ...and on shutdown (going away)
+const CLOSE_SERVER_SHUTDOWN = 1001;
+
+const DEFAULT_AUTH_TIMEOUT_MS = 10000;
+
+// Discord returns at most 100 messages per request; longer histories are
+// fetched page by page, up to maxHistoryMessages
+const HISTORY_PAGE_SIZE = 100;
+const DEFAULT_MAX_HISTORY_MESSAGES = 1000;
+
+// Channels agents can join, read and post in (DMs only with directMessages enabled)
+type MessageableChannel = TextChannel | NewsChannel | ThreadChannel | DMChannel;
+const MESSAGEABLE_CHANNEL_TYPES = new Set<ChannelType>([
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+  ChannelType.PublicThread,
+  ChannelType.PrivateThread,
+  ChannelType.AnnouncementThread,
+  ChannelType.DM
+]);
 
 interface AxonConnection {
   ws: WebSocket;
@@ -34,8 +126,14 @@ interface AxonConnection {
   guildId: string;
   joinedChannels: Set<string>;
   lastRead: Map<string, string>;
-  registeredCommands: Set<string>; // Track slash commands registered by this connection
-  pendingInteractions: Map<string, any>; // Track interactions awaiting response
+  pendingInteractions: PendingInteractions; // Interactions the agent can still respond to
+  scopes?: ConnectionScopes; // Set when authenticated with an API key; undefined means unrestricted
+  protocolVersion: number; // Negotiated during auth
+  directMessages: boolean; // Opted in to receiving DMs
+  dmChannels: Set<string>; // DM channels opened by this connection; their DMs are routed only here
+  sessionId: string; // Lets the client resume this connection after a reconnect
+  events: ReplayBuffer<ServerFrame>; // Recent events, numbered, for replay on resume
+  detachTimer?: NodeJS.Timeout; // Set while the socket is closed; ends the session when it fires
 }
 
 class CombinedDiscordAxonServer {
@@ -43,14 +141,20 @@ class CombinedDiscordAxonServer {
   private wss: WebSocket.Server;
   private discord: Client;
   private rest?: REST; // Discord REST API client for slash commands
+  private commandSync: CommandSync; // Desired slash commands per guild, across connections
+  private sendQueue: SendQueue; // Paces outbound messages per channel and overall
+  private outbox: Outbox<ServerFrame>; // Sends not yet delivered, retried and kept across restarts
+  private membership: MembershipStore; // Joined channels and read positions per agent and guild, across restarts
   private connections = new Map<string, AxonConnection>();
   private moduleServer: AxonModuleServer;
   private hotReloadWss?: WebSocket.Server;
+  private botToken?: string;
 
   constructor(
     private httpPort: number = 8080,
     private wsPort: number = 8081,
-    private modulePort: number = 8082
+    private modulePort: number = 8082,
+    private config: Partial<DiscordConfig> = {}
   ) {
     // Discord client setup
     this.discord = new Client({
@@ -58,8 +162,37 @@ class CombinedDiscordAxonServer {
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
-        GatewayIntentBits.GuildMembers
-      ]
+        GatewayIntentBits.GuildMembers,
+        GatewayIntentBits.GuildMessageReactions,
+        GatewayIntentBits.DirectMessages,
+        GatewayIntentBits.DirectMessageReactions
+      ],
+      // DM channels aren't cached until used; without this their messages are dropped.
+      // Reactions on messages from before startup likewise need the message,
+      // reaction and user partials.
+      partials: [Partials.Channel, Partials.Message, Partials.Reaction, Partials.User]
+    });
+
+    // Slash commands are written to Discord in bulk, per guild
+    this.commandSync = new CommandSync({
+      fetch: guildId => this.restForCommands().get(Routes.applicationGuildCommands(this.discord.user!.id, guildId)) as Promise<any[]>,
+      replace: (guildId, commands) => this.restForCommands().put(Routes.applicationGuildCommands(this.discord.user!.id, guildId), { body: commands }) as Promise<any[]>
+    }, this.config.commandGracePeriodMs ?? DEFAULT_COMMAND_GRACE_PERIOD_MS);
+
+    this.sendQueue = new SendQueue(this.config.sendQueue);
+    this.membership = createMembershipStore(this.config.membershipStore);
+    this.outbox = new Outbox<ServerFrame>(this.config.outbox ?? {}, {
+      deliver: entry => this.deliverSend(entry),
+      report: (requester, entry, outcome) => this.reportSend(requester, entry, outcome),
+      retrying: (entry, error, delayMs) => this.notifySend(entry, {
+        type: 'send_status',
+        channelId: entry.frame.channelId,
+        status: 'retrying',
+        queueDepth: this.sendQueue.depthOf(entry.frame.channelId),
+        reason: error.message,
+        retryInMs: delayMs,
+        ...(entry.frame.nonce !== undefined ? { nonce: entry.frame.nonce } : {})
+      })
     });
 
     // WebSocket server for AXON connections
@@ -113,10 +246,40 @@ class CombinedDiscordAxonServer {
             parameters: { channelId: { type: 'string', required: true } }
           },
           'send': {
-            description: 'Send a message to a channel',
+            description: 'Send a message to a channel, optionally as a reply to another message',
             parameters: { 
               channelId: { type: 'string', required: true },
-              message: { type: 'string', required: true }
+              message: { type: 'string', required: true },
+              replyTo: { type: 'string', required: false },
+              mentionReplyAuthor: { type: 'boolean', required: false },
+              files: { type: 'array', required: false }
+            }
+          },
+          'sendFile': {
+            description: 'Upload a file (base64 data or a server path) to a channel, with an optional message',
+            parameters: {
+              channelId: { type: 'string', required: true },
+              filename: { type: 'string', required: true },
+              data: { type: 'string', required: false },
+              path: { type: 'string', required: false },
+              description: { type: 'string', required: false },
+              message: { type: 'string', required: false }
+            }
+          },
+          'react': {
+            description: 'React to a message with an emoji',
+            parameters: {
+              channelId: { type: 'string', required: true },
+              messageId: { type: 'string', required: true },
+              emoji: { type: 'string', required: true }
+            }
+          },
+          'unreact': {
+            description: 'Remove the bot\'s reaction from a message',
+            parameters: {
+              channelId: { type: 'string', required: true },
+              messageId: { type: 'string', required: true },
+              emoji: { type: 'string', required: true }
             }
           }
         }
@@ -212,6 +375,9 @@ class CombinedDiscordAxonServer {
         status: 'ok',
         discord: this.discord.isReady() ? 'connected' : 'disconnected',
         connections: this.connections.size,
+        detached: [...this.connections.values()].filter(connection => connection.detachTimer).length,
+        sendQueue: this.sendQueue.metrics(),
+        outbox: this.outbox.size,
         modules: 'available at /modules/manifest'
       });
     });
@@ -241,49 +407,68 @@ class CombinedDiscordAxonServer {
       }
       
       console.log('[Server] New WebSocket connection');
+
+      // Drop sockets that never authenticate
+      const authTimeoutMs = this.config.authTimeoutMs ?? DEFAULT_AUTH_TIMEOUT_MS;
+      const authTimer = setTimeout(() => {
+        if (!this.findConnectionId(ws)) {
+          console.warn('[Server] Closing connection: authentication timed out');
+          this.rejectAuth(ws, CLOSE_AUTH_TIMEOUT, 'Authentication timeout');
+        }
+      }, authTimeoutMs);
       
       // Wait for auth message
       ws.on('message', async (data) => {
+        let requestId: string | undefined;
         try {
-          const msg = JSON.parse(data.toString());
+          let raw: any;
+          try {
+            raw = JSON.parse(data.toString());
+          } catch {
+            this.sendToSocket(ws, { type: 'error', error: 'Malformed JSON', code: 'invalid_frame' });
+            return;
+          }
+          if (typeof raw?.requestId === 'string') {
+            requestId = raw.requestId;
+          }
+
+          const validation = validateClientFrame(raw);
+          if (!validation.ok) {
+            this.sendToSocket(ws, { type: 'error', error: validation.error, code: 'invalid_frame', requestId });
+            return;
+          }
+          const msg = validation.frame;
           
-          if (msg.type === 'auth') {
-            await this.handleAuth(ws, msg);
+          if (msg.type === 'auth' || msg.type === 'resume') {
+            if (this.findConnectionId(ws)) {
+              this.sendToSocket(ws, { type: 'error', error: 'Already authenticated', requestId });
+              return;
+            }
+
+            const accepted = msg.type === 'auth' ? await this.handleAuth(ws, msg) : this.handleResume(ws, msg);
+            if (accepted) {
+              clearTimeout(authTimer);
+            }
           } else {
             const connectionId = this.findConnectionId(ws);
             if (connectionId) {
               await this.handleAxonMessage(connectionId, msg);
             } else {
-              ws.send(JSON.stringify({
-                type: 'error',
-                error: 'Not authenticated'
-              }));
+              this.sendToSocket(ws, { type: 'error', error: 'Not authenticated', requestId });
             }
           }
         } catch (error: any) {
           console.error('[Server] Message handling error:', error);
-          ws.send(JSON.stringify({
-            type: 'error',
-            error: error.message
-          }));
+          this.sendToSocket(ws, { type: 'error', error: error.message, requestId });
         }
       });
       
       ws.on('close', async () => {
+        clearTimeout(authTimer);
         const connectionId = this.findConnectionId(ws);
         if (connectionId) {
           console.log(`[Server] Connection closed: ${connectionId}`);
-
-          // Clean up registered slash commands
-          const connection = this.connections.get(connectionId);
-          if (connection && connection.registeredCommands.size > 0) {
-            console.log(`[Server] Cleaning up ${connection.registeredCommands.size} slash commands`);
-            for (const commandName of connection.registeredCommands) {
-              await this.unregisterSlashCommand(connection.guildId, commandName);
-            }
-          }
-
-          this.connections.delete(connectionId);
+          this.detachConnection(connectionId);
         }
       });
       
@@ -293,6 +478,38 @@ class CombinedDiscordAxonServer {
     });
   }
   
+  /**
+   * Send a frame to an AXON connection. When the frame answers a command,
+   * the command's requestId is echoed so the client can correlate them.
+   * A frame that can't be written because the connection is detached is
+   * kept for replay like an event, so a client that resumes still gets the
+   * answers to commands it sent before the disconnect.
+   */
+  private sendFrame(connection: AxonConnection, frame: ServerFrame, request?: { requestId?: string }): void {
+    const requestId = request?.requestId;
+    const response = requestId !== undefined ? { ...frame, requestId } : frame;
+    if (!this.sendToSocket(connection.ws, response)) {
+      connection.events.record(response);
+    }
+  }
+
+  /**
+   * Send an event (a frame that doesn't answer a command) to an AXON
+   * connection. Events are numbered and kept for replay, so they reach a
+   * detached connection if it resumes in time. Returns true if the event was
+   * written to the socket now.
+   */
+  private sendEvent(connection: AxonConnection, frame: ServerFrame): boolean {
+    return this.sendToSocket(connection.ws, connection.events.record(frame));
+  }
+
+  // Returns false (dropping the frame) if the socket isn't open
+  private sendToSocket(ws: WebSocket, frame: ServerFrame): boolean {
+    if (ws.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify(frame));
+    return true;
+  }
+
   private findConnectionId(ws: WebSocket): string | undefined {
     for (const [id, conn] of this.connections) {
       if (conn.ws === ws) return id;
@@ -300,33 +517,255 @@ class CombinedDiscordAxonServer {
     return undefined;
   }
   
-  private async handleAuth(ws: WebSocket, msg: any): Promise<void> {
+  /**
+   * Authenticate a new AXON connection.
+   * A token matching one of the configured API keys grants that key's scopes.
+   * Otherwise agents with a configured shared secret must present it, and all
+   * other agents must present the bot token (unrestricted access).
+   * The guild must be one the bot is a member of.
+   * Returns true if the connection was accepted.
+   */
+  private async handleAuth(ws: WebSocket, msg: AuthRequest): Promise<boolean> {
     const { token, guild, agent } = msg;
+    const agentName = agent || 'Agent';
+    const guildId = guild || this.config.guildId || '';
+
+    console.log(`[Server] Auth request from agent: ${agentName}, guild: ${guildId}`);
 
-    console.log(`[Server] Auth request from agent: ${agent}, guild: ${guild}`);
+    if (typeof token !== 'string' || !token) {
+      this.rejectAuth(ws, CLOSE_AUTH_FAILED, 'Invalid credentials');
+      return false;
+    }
+
+    const credentials = this.checkCredentials(token, agentName);
+    if (!credentials) {
+      this.rejectAuth(ws, CLOSE_AUTH_FAILED, 'Invalid credentials');
+      return false;
+    }
+    const { scopes } = credentials;
+
+    if (guildId && !this.discord.guilds.cache.has(guildId)) {
+      console.warn(`[Server] Rejected auth for agent ${agentName}: bot is not in guild ${guildId}`);
+      this.rejectAuth(ws, CLOSE_GUILD_UNAVAILABLE, 'Unknown guild');
+      return false;
+    }
+
+    // A key limited to some guilds can't be used without naming one
+    if (!isGuildAllowed(scopes, guildId)) {
+      console.warn(`[Server] Rejected auth for agent ${agentName}: guild ${guildId || '(none)'} not permitted by API key`);
+      this.rejectAuth(ws, CLOSE_GUILD_UNAVAILABLE, 'Guild not permitted');
+      return false;
+    }
+
+    const protocolVersion = negotiateProtocolVersion(msg.protocolVersions);
+    if (protocolVersion === undefined) {
+      console.warn(`[Server] Rejected auth for agent ${agentName}: no common protocol version in [${msg.protocolVersions}]`);
+      this.rejectAuth(ws, CLOSE_UNSUPPORTED_PROTOCOL, `Unsupported protocol version (server supports ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`);
+      return false;
+    }
+
+    let directMessages = msg.directMessages === true;
+    if (directMessages && scopes && !scopes.directMessages) {
+      console.warn(`[Server] Direct messages not enabled for agent ${agentName}: not permitted by API key`);
+      directMessages = false;
+    }
 
     // Create connection
     const connectionId = this.generateConnectionId();
     const connection: AxonConnection = {
       ws,
-      agentName: agent || 'Agent',
-      guildId: guild || '',
+      agentName,
+      guildId,
       joinedChannels: new Set(),
       lastRead: new Map(),
-      registeredCommands: new Set(),
-      pendingInteractions: new Map()
+      pendingInteractions: new PendingInteractions({
+        autoDefer: this.config.autoDeferInteractions !== false,
+        afterMs: this.config.autoDeferAfterMs ?? DEFAULT_AUTO_DEFER_AFTER_MS,
+        ephemeral: this.config.deferEphemeral === true
+      }),
+      scopes,
+      protocolVersion,
+      directMessages,
+      dmChannels: new Set(),
+      sessionId: randomUUID(),
+      events: new ReplayBuffer(this.config.replayBufferSize ?? DEFAULT_REPLAY_BUFFER_SIZE)
     };
 
     this.connections.set(connectionId, connection);
+    this.commandSync.retain(guildId, agentName);
+    const stored = this.membership.load(agentName, guildId);
 
     // Send success with bot user ID
-    ws.send(JSON.stringify({
+    this.sendFrame(connection, {
       type: 'authenticated',
       connectionId,
-      botUserId: this.discord.user?.id
-    }));
+      botUserId: this.discord.user?.id,
+      protocolVersion,
+      directMessages,
+      sessionId: connection.sessionId,
+      rejoining: stored.map(({ channelId }) => channelId)
+    }, msg);
+
+    console.log(`[Server] Authenticated connection: ${connectionId}${scopes ? ` (API key scopes: ${scopes.keyName})` : ''}`);
+
+    this.rejoinChannels(connectionId, stored).catch(error => {
+      console.error(`[Server] Failed to rejoin channels for ${agentName}:`, error);
+    });
+    return true;
+  }
 
-    console.log(`[Server] Authenticated connection: ${connectionId}`);
+  /**
+   * Join a newly authenticated connection to the channels its agent had
+   * joined in the guild (e.g. before a server restart or in a session that
+   * ended), sending only the messages after the last one the agent was sent
+   * in each
+   */
+  private async rejoinChannels(connectionId: string, stored: StoredChannel[]): Promise<void> {
+    if (stored.length === 0) return;
+
+    console.log(`[Server] Rejoining connection ${connectionId} to ${stored.length} channels`);
+    for (const { channelId, lastRead } of stored) {
+      // Through the normal join, so the connection's scopes still apply
+      await this.handleAxonMessage(connectionId, { type: 'join', channelId, ...(lastRead ? { lastMessageId: lastRead } : {}) });
+    }
+  }
+
+  private addJoinedChannel(connection: AxonConnection, channelId: string): void {
+    connection.joinedChannels.add(channelId);
+    this.membership.join(connection.agentName, connection.guildId, channelId);
+  }
+
+  /**
+   * Record the last message a connection was sent in a channel (read
+   * positions only move forward)
+   */
+  private markRead(connection: AxonConnection, channelId: string, messageId: string): void {
+    if (!isLaterSnowflake(messageId, connection.lastRead.get(channelId))) return;
+    connection.lastRead.set(channelId, messageId);
+    this.membership.markRead(connection.agentName, connection.guildId, channelId, messageId);
+  }
+
+  /**
+   * Check a token for an agent: one of the configured API keys (returning
+   * its scopes), the agent's shared secret, or the bot token. Returns
+   * undefined if the token isn't valid for the agent.
+   */
+  private checkCredentials(token: string, agentName: string): { scopes?: ConnectionScopes } | undefined {
+    const apiKey = findApiKey(this.config.apiKeys, token);
+
+    if (apiKey) {
+      if (apiKey.agent && apiKey.agent !== agentName) {
+        console.warn(`[Server] Rejected auth for agent ${agentName}: API key belongs to ${apiKey.agent}`);
+        return undefined;
+      }
+      return { scopes: scopesFromApiKey(apiKey) };
+    }
+
+    const agentSecret = this.config.agentSecrets?.[agentName];
+    const expectedToken = agentSecret ?? (this.config.allowBotTokenAuth === false ? undefined : this.botToken);
+
+    if (!expectedToken || !tokensMatch(token, expectedToken)) {
+      console.warn(`[Server] Rejected auth for agent ${agentName}: invalid ${agentSecret ? 'agent secret' : 'token'}`);
+      return undefined;
+    }
+    return {};
+  }
+
+  /**
+   * Pick up a session on a new socket: the connection keeps its joined
+   * channels, slash commands and pending interactions, and the events the
+   * client missed are sent again after the 'resumed' frame. A session that
+   * has ended, or whose missed events are no longer all kept, can't be
+   * resumed; the socket stays open so the client can authenticate instead.
+   * Returns true if the session was resumed.
+   */
+  private handleResume(ws: WebSocket, msg: ResumeRequest): boolean {
+    const found = [...this.connections].find(([, connection]) => connection.sessionId === msg.sessionId);
+    if (!found) {
+      console.warn(`[Server] Cannot resume session ${msg.sessionId}: unknown or expired`);
+      this.sendToSocket(ws, { type: 'error', error: 'Session cannot be resumed: unknown or expired', code: 'resume_failed', requestId: msg.requestId });
+      return false;
+    }
+    const [connectionId, connection] = found;
+
+    // Same credentials as the session was opened with
+    const credentials = this.checkCredentials(msg.token, connection.agentName);
+    if (!credentials || credentials.scopes?.keyName !== connection.scopes?.keyName) {
+      this.rejectAuth(ws, CLOSE_AUTH_FAILED, 'Invalid credentials');
+      return false;
+    }
+
+    const missed = connection.events.since(msg.lastSeq);
+    if (!missed) {
+      console.warn(`[Server] Cannot resume session ${msg.sessionId}: events after ${msg.lastSeq} are no longer kept`);
+      this.sendToSocket(ws, { type: 'error', error: 'Session cannot be resumed: missed events are no longer available', code: 'resume_failed', requestId: msg.requestId });
+      return false;
+    }
+
+    clearTimeout(connection.detachTimer);
+    connection.detachTimer = undefined;
+    const previous = connection.ws;
+    connection.ws = ws;
+    if (previous.readyState === WebSocket.OPEN) {
+      previous.close(CLOSE_SESSION_RESUMED, 'Session resumed on another connection');
+    }
+
+    this.sendFrame(connection, {
+      type: 'resumed',
+      connectionId,
+      sessionId: connection.sessionId,
+      botUserId: this.discord.user?.id,
+      protocolVersion: connection.protocolVersion,
+      directMessages: connection.directMessages,
+      joinedChannels: [...connection.joinedChannels],
+      replayed: missed.length
+    }, msg);
+    for (const event of missed) {
+      if (this.sendToSocket(ws, event) && event.type === 'message') {
+        this.markRead(connection, event.payload.channelId, event.payload.messageId);
+      }
+    }
+
+    console.log(`[Server] Resumed session of connection ${connectionId} (${missed.length} events replayed)`);
+    return true;
+  }
+
+  /**
+   * The socket of a connection closed: keep the session for the resume
+   * window (events keep being recorded), then end it
+   */
+  private detachConnection(connectionId: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    clearTimeout(connection.detachTimer);
+    connection.detachTimer = setTimeout(
+      () => this.endSession(connectionId),
+      this.config.resumeWindowMs ?? DEFAULT_RESUME_WINDOW_MS
+    );
+  }
+
+  private endSession(connectionId: string): void {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+
+    console.log(`[Server] Session of connection ${connectionId} ended`);
+    connection.pendingInteractions.clear();
+    this.connections.delete(connectionId);
+
+    // Drop the agent's slash commands after a grace period, unless it
+    // still has (or regains) a connection to the guild
+    if (!this.hasAgentConnection(connection.agentName, connection.guildId)) {
+      this.commandSync.release(connection.guildId, connection.agentName);
+    }
+  }
+
+  private rejectAuth(ws: WebSocket, code: number, reason: string): void {
+    this.sendToSocket(ws, {
+      type: 'error',
+      error: `Authentication failed: ${reason}`
+    });
+    ws.close(code, reason);
   }
   
   // Cache for reverse mention lookups (name -> ID)
@@ -538,65 +977,122 @@ class CombinedDiscordAxonServer {
       if (interaction.isChatInputCommand()) {
         console.log(`[Discord] Slash command received: /${interaction.commandName}`);
 
-        // Find the connection that should handle this interaction
-        // Route based on guild membership
-        for (const [id, connection] of this.connections) {
-          if (interaction.guildId && interaction.guildId === connection.guildId) {
-            // Store interaction for potential response
-            connection.pendingInteractions.set(interaction.id, interaction);
-
-            // Forward to AXON client
-            connection.ws.send(JSON.stringify({
-              type: 'interaction:slash-command',
-              payload: {
-                interactionId: interaction.id,
-                commandName: interaction.commandName,
-                options: interaction.options.data.map((opt: any) => ({
-                  name: opt.name,
-                  type: opt.type,
-                  value: opt.value
-                })),
-                user: interaction.user.username,
-                userId: interaction.user.id,
-                channelId: interaction.channelId,
-                guildId: interaction.guildId
-              }
-            }));
+        this.forwardInteraction(interaction, {
+          type: 'interaction:slash-command',
+          payload: {
+            interactionId: interaction.id,
+            commandName: interaction.commandName,
+            ...flattenInvokedOptions(interaction.options.data),
+            user: interaction.user.username,
+            userId: interaction.user.id,
+            channelId: interaction.channelId,
+            guildId: interaction.guildId
+          }
+        });
+      }
 
-            console.log(`[Discord] Forwarded slash command to connection: ${id}`);
-            break;
+      // Handle user and message context menu commands
+      else if (interaction.isContextMenuCommand()) {
+        console.log(`[Discord] Context menu command received: ${interaction.commandName}`);
+
+        const targetUser = interaction.isUserContextMenuCommand() ? interaction.targetUser : null;
+        this.forwardInteraction(interaction, {
+          type: 'interaction:context-menu',
+          payload: {
+            interactionId: interaction.id,
+            commandName: interaction.commandName,
+            commandType: interaction.isMessageContextMenuCommand() ? 'message' : 'user',
+            targetId: interaction.targetId,
+            targetMessage: interaction.isMessageContextMenuCommand() ? await this.historyMessage(interaction.targetMessage) : null,
+            targetUser: targetUser && {
+              id: targetUser.id,
+              username: targetUser.username,
+              displayName: targetUser.displayName,
+              isBot: targetUser.bot
+            },
+            user: interaction.user.username,
+            userId: interaction.user.id,
+            channelId: interaction.channelId,
+            guildId: interaction.guildId
           }
-        }
+        });
+      }
+
+      // Handle autocomplete requests for slash command options
+      else if (interaction.isAutocomplete()) {
+        const focused = interaction.options.getFocused(true);
+
+        this.forwardInteraction(interaction, {
+          type: 'interaction:autocomplete',
+          payload: {
+            interactionId: interaction.id,
+            commandName: interaction.commandName,
+            ...flattenInvokedOptions(interaction.options.data),
+            focused: { name: focused.name, value: String(focused.value) },
+            user: interaction.user.username,
+            userId: interaction.user.id,
+            channelId: interaction.channelId,
+            guildId: interaction.guildId
+          }
+        });
       }
 
       // Handle button interactions
       else if (interaction.isButton()) {
         console.log(`[Discord] Button interaction: ${interaction.customId}`);
 
-        // Find the connection that should handle this interaction
-        for (const [id, connection] of this.connections) {
-          if (interaction.guildId && interaction.guildId === connection.guildId) {
-            // Store interaction for potential response
-            connection.pendingInteractions.set(interaction.id, interaction);
-
-            // Forward to AXON client
-            connection.ws.send(JSON.stringify({
-              type: 'interaction:button',
-              payload: {
-                interactionId: interaction.id,
-                customId: interaction.customId,
-                user: interaction.user.username,
-                userId: interaction.user.id,
-                channelId: interaction.channelId,
-                guildId: interaction.guildId,
-                messageId: interaction.message.id
-              }
-            }));
+        this.forwardInteraction(interaction, {
+          type: 'interaction:button',
+          payload: {
+            interactionId: interaction.id,
+            customId: parseCustomId(interaction.customId).customId,
+            user: interaction.user.username,
+            userId: interaction.user.id,
+            channelId: interaction.channelId,
+            guildId: interaction.guildId,
+            messageId: interaction.message.id
+          }
+        });
+      }
 
-            console.log(`[Discord] Forwarded button interaction to connection: ${id}`);
-            break;
+      // Handle select menus of every kind
+      else if (interaction.isAnySelectMenu()) {
+        console.log(`[Discord] Select menu interaction: ${interaction.customId} = ${interaction.values.join(', ')}`);
+
+        this.forwardInteraction(interaction, {
+          type: 'interaction:select',
+          payload: {
+            interactionId: interaction.id,
+            customId: parseCustomId(interaction.customId).customId,
+            kind: this.selectMenuKind(interaction),
+            values: interaction.values,
+            resolved: this.resolvedSelections(interaction),
+            user: interaction.user.username,
+            userId: interaction.user.id,
+            channelId: interaction.channelId,
+            guildId: interaction.guildId,
+            messageId: interaction.message.id
           }
-        }
+        });
+      }
+
+      // Handle modal submissions
+      else if (interaction.isModalSubmit()) {
+        console.log(`[Discord] Modal submitted: ${interaction.customId}`);
+
+        this.forwardInteraction(interaction, {
+          type: 'interaction:modal-submit',
+          payload: {
+            interactionId: interaction.id,
+            customId: parseCustomId(interaction.customId).customId,
+            fields: Object.fromEntries(interaction.fields.fields.map(field => [field.customId, field.value])),
+            user: interaction.user.username,
+            userId: interaction.user.id,
+            channelId: interaction.channelId,
+            guildId: interaction.guildId,
+            messageId: interaction.isFromMessage() ? interaction.message.id : null
+          }
+        });
       }
     });
     
@@ -609,6 +1105,10 @@ class CombinedDiscordAxonServer {
       
       // Parse mentions
       const { content, mentions } = this.parseMentions(message);
+
+      // Attachment metadata, plus the text of small text files if enabled
+      const attachments = serializeAttachments(message);
+      const inlinedText = this.hasRecipients(message.channel) ? await this.inlineAttachments(attachments) : '';
       
       // Extract reply information
       let replyInfo = null;
@@ -623,10 +1123,10 @@ class CombinedDiscordAxonServer {
         console.log(`[Server] Reply detected: user ${message.author.username} replying to message ${message.reference.messageId} (author: ${replyInfo.authorId})`);
       }
       
-      // Forward to all agents that have joined this channel
+      // Forward to all agents that have joined this channel (or take DMs)
       for (const [id, connection] of this.connections) {
-        if (connection.joinedChannels.has(message.channelId)) {
-          connection.ws.send(JSON.stringify({
+        if (this.receivesChannel(connection, message.channel)) {
+          const delivered = this.sendEvent(connection, {
             type: 'message',
             payload: {
               channelId: message.channelId,
@@ -634,19 +1134,27 @@ class CombinedDiscordAxonServer {
               author: message.author.username,
               authorId: message.author.id,
               isBot: message.author.bot,
-              content: content, // Parsed content with human-readable mentions
+              content: content + inlinedText, // Parsed content with human-readable mentions
               rawContent: message.content, // Original content with Discord IDs
               mentions: mentions, // Structured mention metadata
               reply: replyInfo, // Reply information if this is a reply
+              attachments, // Attachment metadata
+              embeds: serializeEmbeds(message), // Embeds (bot posts, link previews, webhooks)
+              components: serializeComponents(message), // Buttons and select menus
               timestamp: message.createdAt.toISOString(),
               guildId: message.guildId,
               guildName: message.guild?.name,
-              channelName: (message.channel as TextChannel).name
+              channelName: this.channelName(message.channel),
+              thread: this.threadInfo(message.channel),
+              dm: this.dmInfo(message.channel)
             }
-          }));
+          });
           
-          // Update last read
-          connection.lastRead.set(message.channelId, message.id);
+          // Update last read, unless the agent is detached (then it's done
+          // when the message is replayed on resume)
+          if (delivered) {
+            this.markRead(connection, message.channelId, message.id);
+          }
         }
       }
     });
@@ -655,14 +1163,25 @@ class CombinedDiscordAxonServer {
     this.discord.on('messageUpdate', async (oldMessage, newMessage) => {
       // Forward to all agents that have joined this channel
       // Note: We don't filter bot messages here - agents need to know about edits to all messages
+      if (!this.hasRecipients(newMessage.channel)) return;
+
+      // Edits to messages from before startup arrive partial (see Partials.Message)
+      if (newMessage.partial) {
+        try {
+          newMessage = await newMessage.fetch();
+        } catch (error: any) {
+          console.warn(`[Discord] Could not fetch edited message ${newMessage.id}: ${error.message}`);
+          return;
+        }
+      }
       
       // Parse mentions for both old and new content
       const oldParsed = oldMessage.content ? this.parseMentions(oldMessage) : { content: '', mentions: null };
       const newParsed = newMessage.content ? this.parseMentions(newMessage) : { content: '', mentions: null };
       
       for (const [id, connection] of this.connections) {
-        if (connection.joinedChannels.has(newMessage.channelId)) {
-          connection.ws.send(JSON.stringify({
+        if (this.receivesChannel(connection, newMessage.channel)) {
+          this.sendEvent(connection, {
             type: 'messageUpdate',
             payload: {
               channelId: newMessage.channelId,
@@ -675,12 +1194,17 @@ class CombinedDiscordAxonServer {
               oldContent: oldParsed.content, // Parsed old content
               rawOldContent: oldMessage.content, // Original old content
               mentions: newParsed.mentions, // Mention metadata
+              attachments: serializeAttachments(newMessage),
+              embeds: serializeEmbeds(newMessage), // Link previews usually arrive as an update
+              components: serializeComponents(newMessage),
               timestamp: newMessage.editedAt?.toISOString() || newMessage.createdAt?.toISOString(),
               guildId: newMessage.guildId,
               guildName: newMessage.guild?.name,
-              channelName: (newMessage.channel as TextChannel).name
+              channelName: this.channelName(newMessage.channel),
+              thread: this.threadInfo(newMessage.channel),
+              dm: this.dmInfo(newMessage.channel)
             }
-          }));
+          });
         }
       }
     });
@@ -689,8 +1213,8 @@ class CombinedDiscordAxonServer {
     this.discord.on('messageDelete', async (message) => {
       // Forward to all agents that have joined this channel
       for (const [id, connection] of this.connections) {
-        if (connection.joinedChannels.has(message.channelId)) {
-          connection.ws.send(JSON.stringify({
+        if (this.receivesChannel(connection, message.channel)) {
+          this.sendEvent(connection, {
             type: 'messageDelete',
             payload: {
               channelId: message.channelId,
@@ -701,217 +1225,648 @@ class CombinedDiscordAxonServer {
               timestamp: new Date().toISOString(),
               guildId: message.guildId,
               guildName: message.guild?.name,
-              channelName: (message.channel as TextChannel).name
+              channelName: this.channelName(message.channel),
+              thread: this.threadInfo(message.channel),
+              dm: this.dmInfo(message.channel)
             }
-          }));
-        }
-      }
-    });
-  }
-  
-  private async handleAxonMessage(connectionId: string, msg: any): Promise<void> {
-    const connection = this.connections.get(connectionId);
-    if (!connection) return;
-    
-    console.log(`[Server] Handling message:`, msg.type);
-    
-    switch (msg.type) {
-      case 'join': {
-        const { channelId, scrollback = 50, lastMessageId } = msg;
-        
-        try {
-          const channel = await this.discord.channels.fetch(channelId) as TextChannel;
-          if (!channel || channel.type !== 0) {
-            throw new Error('Channel not found or not a text channel');
-          }
-          
-          connection.joinedChannels.add(channelId);
-          
-          // Cache channel name for reverse lookups
-          this.channelNameToId.set(channel.name.toLowerCase(), channel.id);
-          
-          // Cache guild members for reverse user lookups
-          if (channel.guild) {
-            const members = await channel.guild.members.fetch({ limit: 100 });
-            members.forEach(member => {
-              this.userNameToId.set(member.user.username.toLowerCase(), member.user.id);
-            });
-            
-            // Cache roles for reverse role lookups
-            channel.guild.roles.cache.forEach(role => {
-              this.roleNameToId.set(role.name.toLowerCase(), role.id);
-            });
-          }
-          
-          // Get messages after lastMessageId if provided, otherwise get recent messages
-          const messages = await channel.messages.fetch({ 
-            limit: scrollback,
-            ...(lastMessageId ? { after: lastMessageId } : {})
           });
-          
-          // Send history
-          // Note: messages.reverse() is only needed when fetching with 'before'
-          // With 'after', messages are already in chronological order
-          const orderedMessages = lastMessageId ? messages : messages.reverse();
-          
-          connection.ws.send(JSON.stringify({
-            type: 'history',
-            channelId: channel.id,
-            channelName: channel.name,
-            guildId: channel.guildId,
-            guildName: channel.guild?.name,
-            messages: orderedMessages.map(m => {
-              const { content, mentions } = this.parseMentions(m);
-              return {
-                channelId: m.channelId,
-                messageId: m.id,
-                author: m.author.username,
-                authorId: m.author.id,
-                isBot: m.author.bot,
-                content: content, // Parsed content with human-readable mentions
-                rawContent: m.content, // Original content with Discord IDs
-                mentions: mentions, // Structured mention metadata
-                timestamp: m.createdAt.toISOString()
-              };
-            })
-          }));
-          
-          // Send joined confirmation with channel info
-          connection.ws.send(JSON.stringify({
-            type: 'joined',
-            channel: {
-              id: channel.id,
-              name: channel.name,
-              type: channel.type,
-              guildId: channel.guildId,
-              guildName: channel.guild?.name
-            }
-          }));
-          
-          console.log(`[Server] Agent joined channel: ${channel.name} (${channelId})`);
-        } catch (error: any) {
-          console.error(`[Server] Failed to join channel:`, error);
-          connection.ws.send(JSON.stringify({
-            type: 'error',
-            error: `Failed to join channel: ${error.message}`
-          }));
-        }
-        break;
-      }
-      
-      case 'leave': {
-        const { channelId } = msg;
-        connection.joinedChannels.delete(channelId);
-        
-        // Send left confirmation
-        connection.ws.send(JSON.stringify({
-          type: 'left',
-          channelId
-        }));
-        
-        console.log(`[Server] Agent left channel: ${channelId}`);
-        break;
-      }
-      
-      case 'send': {
-        const { channelId, message } = msg;
-        
-        try {
-          const channel = await this.discord.channels.fetch(channelId) as TextChannel;
-          if (!channel || channel.type !== 0) {
-            throw new Error('Channel not found or not a text channel');
-          }
-          
-          // Convert human-readable mentions to Discord IDs
-          const discordMessage = await this.unparseMentions(message, channel.guildId);
-          
-          const sentMessage = await channel.send(discordMessage);
-          console.log(`[Server] Sent message to ${channel.name}: ${message} -> ${discordMessage} (ID: ${sentMessage.id})`);
-          
-          // Send confirmation back to client with message ID
-          connection.ws.send(JSON.stringify({
-            type: 'message_sent',
-            channelId: channelId,
-            messageId: sentMessage.id,
-            content: message,
-            timestamp: sentMessage.createdAt.toISOString()
-          }));
-        } catch (error: any) {
-          console.error(`[Server] Failed to send message:`, error);
-          connection.ws.send(JSON.stringify({
-            type: 'error',
-            error: `Failed to send message: ${error.message}`
-          }));
-        }
-        break;
-      }
-      
-      case 'listGuilds': {
-        try {
-          const guilds = this.discord.guilds.cache.map(guild => ({
-            id: guild.id,
-            name: guild.name,
-            icon: guild.iconURL(),
-            memberCount: guild.memberCount
-          }));
-          
-          connection.ws.send(JSON.stringify({
-            type: 'guilds',
-            guilds
-          }));
-          
-          console.log(`[Server] Sent guilds list to ${connection.agentName} (${guilds.length} guilds)`);
-        } catch (error: any) {
-          console.error(`[Server] Failed to list guilds:`, error);
-          connection.ws.send(JSON.stringify({
-            type: 'error',
-            error: `Failed to list guilds: ${error.message}`
-          }));
         }
-        break;
       }
-      
-      case 'listChannels': {
-        const { guildId } = msg;
+    });
 
-        try {
-          const guild = await this.discord.guilds.fetch(guildId);
-          if (!guild) {
-            throw new Error('Guild not found');
-          }
+    // Reactions, forwarded with the message's reaction state after the change
+    this.discord.on('messageReactionAdd', (reaction, user) => {
+      this.forwardReaction('reactionAdd', reaction, user);
+    });
 
-          const channels = guild.channels.cache
-            .filter(channel => channel.isTextBased())
-            .map(channel => ({
-              id: channel.id,
-              name: channel.name,
-              type: channel.type,
-              guildId: guild.id,
-              guildName: guild.name,
-              parentId: channel.parentId,
-              position: 'position' in channel ? channel.position : 0
-            }))
-            .sort((a, b) => a.position - b.position);
+    this.discord.on('messageReactionRemove', (reaction, user) => {
+      this.forwardReaction('reactionRemove', reaction, user);
+    });
+
+    // Thread lifecycle, forwarded to agents in the thread or its parent channel
+    this.discord.on('threadCreate', (thread, newlyCreated) => {
+      this.forwardThreadEvent('threadCreate', thread, newlyCreated);
+    });
+
+    this.discord.on('threadUpdate', (_oldThread, newThread) => {
+      this.forwardThreadEvent('threadUpdate', newThread);
+    });
+
+    this.discord.on('threadDelete', (thread) => {
+      this.forwardThreadEvent('threadDelete', thread);
+      for (const connection of this.connections.values()) {
+        connection.joinedChannels.delete(thread.id);
+      }
+      this.membership.forgetChannel(thread.id);
+    });
+  }
+
+  /**
+   * Forward an interaction to the agent that handles it, keeping it so the
+   * agent can respond. Interactions no agent handles are answered with a
+   * short ephemeral notice (or no suggestions, for autocomplete).
+   */
+  private forwardInteraction(interaction: RepliableInteraction | AutocompleteInteraction, frame: ServerFrame): void {
+    const route = this.routeInteraction(interaction);
+    if (!route) {
+      console.log(`[Discord] No agent handles ${frame.type} ${this.interactionLabel(interaction)}`);
+      const notice = interaction.isAutocomplete()
+        ? interaction.respond([])
+        : interaction.reply({ content: 'No agent is handling this right now.', ephemeral: true });
+      notice.catch(error => {
+        console.warn(`[Discord] Could not answer unrouted interaction ${interaction.id}: ${error.message}`);
+      });
+      return;
+    }
+
+    const [id, connection] = route;
+    if (interaction.isAutocomplete()) {
+      connection.pendingInteractions.addAutocomplete(interaction);
+    } else {
+      connection.pendingInteractions.add(interaction);
+    }
+    this.sendEvent(connection, frame);
+    console.log(`[Discord] Forwarded ${frame.type} to connection: ${id}`);
+  }
+
+  /**
+   * The connection that handles an interaction: for commands, one of the
+   * agent that registered the command; for components and modals, one of the
+   * agent whose namespace the customId carries. Components sent before
+   * customIds were namespaced go to the guild's only agent, if it has one.
+   */
+  private routeInteraction(interaction: RepliableInteraction | AutocompleteInteraction): [string, AxonConnection] | undefined {
+    const connections = [...this.connections.entries()];
+
+    if (interaction.isCommand() || interaction.isAutocomplete()) {
+      const owner = interaction.guildId
+        ? this.commandSync.ownerOf(interaction.guildId, interaction.commandName, interaction.commandType)
+        : undefined;
+      return connections.find(([, connection]) =>
+        connection.agentName === owner && connection.guildId === interaction.guildId);
+    }
+
+    if (interaction.isMessageComponent() || interaction.isModalSubmit()) {
+      const { namespace } = parseCustomId(interaction.customId);
+      // A DM component can only have been sent by the agent that owns the namespace
+      const inScope = connections.filter(([, connection]) =>
+        !interaction.guildId || connection.guildId === interaction.guildId);
+      if (namespace) {
+        return inScope.find(([, connection]) => customIdNamespace(connection.agentName) === namespace);
+      }
+      const agents = new Set(inScope.map(([, connection]) => connection.agentName));
+      return interaction.guildId && agents.size === 1 ? inScope[0] : undefined;
+    }
+
+    return undefined;
+  }
+
+  private interactionLabel(interaction: RepliableInteraction | AutocompleteInteraction): string {
+    return interaction.isCommand() || interaction.isAutocomplete() ? interaction.commandName : interaction.customId;
+  }
+
+  private selectMenuKind(interaction: AnySelectMenuInteraction): SelectMenuKind {
+    if (interaction.isUserSelectMenu()) return 'user-select';
+    if (interaction.isRoleSelectMenu()) return 'role-select';
+    if (interaction.isMentionableSelectMenu()) return 'mentionable-select';
+    if (interaction.isChannelSelectMenu()) return 'channel-select';
+    return 'string-select';
+  }
+
+  /**
+   * Names for the users, roles and channels picked in a select menu
+   */
+  private resolvedSelections(interaction: AnySelectMenuInteraction): Array<{ id: string; name: string }> {
+    if (interaction.isStringSelectMenu()) return [];
+
+    const resolved: Array<{ id: string; name: string }> = [];
+    if ('users' in interaction) {
+      for (const user of interaction.users.values()) resolved.push({ id: user.id, name: user.username });
+    }
+    if ('roles' in interaction) {
+      for (const role of interaction.roles.values()) resolved.push({ id: role.id, name: role.name });
+    }
+    if ('channels' in interaction) {
+      for (const channel of interaction.channels.values()) resolved.push({ id: channel.id, name: this.channelName(channel) });
+    }
+    return resolved;
+  }
+
+  private forwardThreadEvent(type: 'threadCreate' | 'threadUpdate' | 'threadDelete', thread: ThreadChannel, newlyCreated?: boolean): void {
+    const info = this.threadInfo(thread)!;
+
+    for (const connection of this.connections.values()) {
+      if (connection.guildId !== thread.guildId) continue;
+      if (!connection.joinedChannels.has(thread.id) && !(thread.parentId && connection.joinedChannels.has(thread.parentId))) continue;
+
+      this.sendEvent(connection, {
+        type,
+        payload: {
+          thread: info,
+          guildId: thread.guildId,
+          guildName: thread.guild?.name,
+          ownerId: thread.ownerId,
+          ...(newlyCreated !== undefined ? { newlyCreated } : {})
+        }
+      });
+    }
+
+    console.log(`[Discord] ${type}: ${thread.name} (${thread.id}) in ${thread.parent?.name ?? thread.parentId}`);
+  }
+
+  private async forwardReaction(
+    type: 'reactionAdd' | 'reactionRemove',
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    // Agents share the bot user, so like messages its own reactions aren't echoed back
+    if (user.id === this.discord.user?.id) return;
+    if (!this.hasRecipients(reaction.message.channel)) return;
+
+    let message: Message;
+    let reactor: User;
+    try {
+      message = reaction.message.partial ? await reaction.message.fetch() : reaction.message;
+      reactor = user.partial ? await user.fetch() : user;
+    } catch (error: any) {
+      console.warn(`[Discord] Could not forward ${type} on message ${reaction.message.id}: ${error.message}`);
+      return;
+    }
+
+    for (const connection of this.connections.values()) {
+      if (!this.receivesChannel(connection, message.channel)) continue;
+
+      this.sendEvent(connection, {
+        type,
+        payload: {
+          channelId: message.channelId,
+          messageId: message.id,
+          messageAuthorId: message.author?.id,
+          emoji: serializeEmoji(reaction.emoji),
+          user: reactor.username,
+          userId: reactor.id,
+          isBot: reactor.bot,
+          reactions: serializeReactions(message),
+          timestamp: new Date().toISOString(),
+          guildId: message.guildId,
+          guildName: message.guild?.name,
+          channelName: this.channelName(message.channel),
+          thread: this.threadInfo(message.channel),
+          dm: this.dmInfo(message.channel)
+        }
+      });
+    }
+  }
+
+  /**
+   * Whether messages in a channel are forwarded to a connection: joined
+   * channels, plus DMs for connections that opted in. A DM channel opened by
+   * an agent goes only to that agent; other DMs go to every opted-in agent.
+   */
+  private receivesChannel(connection: AxonConnection, channel: any): boolean {
+    if (channel?.type !== ChannelType.DM) {
+      return connection.joinedChannels.has(channel?.id);
+    }
+    if (!connection.directMessages) return false;
+
+    const opened = [...this.connections.values()].some(c => c.directMessages && c.dmChannels.has(channel.id));
+    return opened ? connection.dmChannels.has(channel.id) : true;
+  }
+
+  private hasRecipients(channel: any): boolean {
+    return [...this.connections.values()].some(connection => this.receivesChannel(connection, channel));
+  }
+
+  /**
+   * A message as it appears in history frames
+   */
+  private async historyMessage(m: Message): Promise<HistoryMessage> {
+    const { content, mentions } = this.parseMentions(m);
+    const attachments = serializeAttachments(m);
+    return {
+      channelId: m.channelId,
+      messageId: m.id,
+      author: m.author.username,
+      authorId: m.author.id,
+      isBot: m.author.bot,
+      content: content + await this.inlineAttachments(attachments), // Parsed content with human-readable mentions
+      rawContent: m.content, // Original content with Discord IDs
+      mentions: mentions, // Structured mention metadata
+      attachments, // Attachment metadata
+      embeds: serializeEmbeds(m),
+      components: serializeComponents(m),
+      timestamp: m.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Inline small text attachments when configured; returns the text to
+   * append to the message content
+   */
+  private async inlineAttachments(attachments: AttachmentInfo[]): Promise<string> {
+    const maxBytes = this.config.inlineTextAttachmentBytes;
+    if (!maxBytes || attachments.length === 0) return '';
+    return inlineTextAttachments(attachments, maxBytes);
+  }
+
+  private channelName(channel: any): string {
+    if (channel?.type === ChannelType.DM) {
+      return `@${channel.recipient?.username ?? channel.recipientId}`;
+    }
+    return channel?.name;
+  }
+
+  private dmInfo(channel: any): DirectMessageInfo | null {
+    if (channel?.type !== ChannelType.DM) return null;
+    return {
+      userId: channel.recipientId,
+      username: channel.recipient?.username
+    };
+  }
+
+  /**
+   * The most messages a join catch-up or history request sends
+   */
+  private get maxHistoryMessages(): number {
+    return this.config.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
+  }
+
+  /**
+   * Fetch up to `limit` messages after a message, or before one (before the
+   * latest if neither is given), a page of up to 100 per Discord request,
+   * and send each page as a history frame as it arrives. Messages in a page
+   * are oldest first; pages go in the direction of the fetch. Returns the
+   * number of messages sent, where to continue, and the newest message seen.
+   */
+  private async streamHistory(
+    connection: AxonConnection,
+    channel: MessageableChannel,
+    range: { before?: string; after?: string; limit: number },
+    request: { requestId?: string }
+  ): Promise<{ count: number; hasMore: boolean; cursor: string | null; newest: string | null }> {
+    if (!Number.isInteger(range.limit) || range.limit < 1) {
+      throw new Error('History limit must be a positive integer');
+    }
+
+    const direction = range.after !== undefined ? 'after' : 'before';
+    const guild = channel.isDMBased() ? null : channel.guild;
+    let remaining = Math.min(range.limit, this.maxHistoryMessages);
+    let cursor = range.after ?? range.before ?? null;
+    let newest: string | null = null;
+    let count = 0;
+    let hasMore: boolean;
+    let first = true;
+
+    do {
+      const limit = Math.min(remaining, HISTORY_PAGE_SIZE);
+      const page = await channel.messages.fetch({ limit, ...(cursor ? { [direction]: cursor } : {}) });
+      const ordered = [...page.values()].sort((a, b) => (isLaterSnowflake(a.id, b.id) ? 1 : -1));
+
+      const messages: HistoryMessage[] = [];
+      for (const m of ordered) {
+        messages.push(await this.historyMessage(m));
+      }
+
+      // A short page means the channel has no more messages that way
+      hasMore = ordered.length === limit;
+      if (ordered.length > 0) {
+        cursor = direction === 'after' ? ordered[ordered.length - 1].id : ordered[0].id;
+        const last = ordered[ordered.length - 1].id;
+        if (isLaterSnowflake(last, newest ?? undefined)) newest = last;
+      }
+      remaining -= ordered.length;
+      count += ordered.length;
+
+      this.sendFrame(connection, {
+        type: 'history',
+        channelId: channel.id,
+        channelName: this.channelName(channel),
+        guildId: guild?.id ?? null,
+        guildName: guild?.name,
+        thread: this.threadInfo(channel),
+        dm: this.dmInfo(channel),
+        messages,
+        hasMore,
+        cursor,
+        upToDate: direction === 'after' ? !hasMore : first && range.before === undefined
+      }, request);
+      first = false;
+    } while (hasMore && remaining > 0);
+
+    return { count, hasMore, cursor, newest };
+  }
 
-          connection.ws.send(JSON.stringify({
+  /**
+   * Fetch a channel agents can post in: a text channel, thread or DM
+   */
+  private async fetchMessageableChannel(channelId: string): Promise<MessageableChannel> {
+    const channel = await this.discord.channels.fetch(channelId);
+    if (channel?.type === ChannelType.GuildForum) {
+      throw new Error('Forum channels have no messages of their own; join one of their posts instead (see listForumPosts)');
+    }
+    if (!channel || !MESSAGEABLE_CHANNEL_TYPES.has(channel.type)) {
+      throw new Error('Channel not found or not a text channel or thread');
+    }
+    return channel as MessageableChannel;
+  }
+
+  private async fetchForumChannel(channelId: string): Promise<ForumChannel> {
+    const channel = await this.discord.channels.fetch(channelId);
+    if (!channel || channel.type !== ChannelType.GuildForum) {
+      throw new Error('Channel not found or not a forum channel');
+    }
+    return channel;
+  }
+
+  private forumTags(forum: ForumChannel): ForumTagInfo[] {
+    return forum.availableTags.map(tag => ({
+      id: tag.id,
+      name: tag.name,
+      emoji: tag.emoji?.name ?? tag.emoji?.id ?? null,
+      moderated: tag.moderated
+    }));
+  }
+
+  private channelTypeName(type: ChannelType): ChannelTypeName {
+    switch (type) {
+      case ChannelType.GuildText:
+        return 'text';
+      case ChannelType.GuildAnnouncement:
+        return 'announcement';
+      case ChannelType.GuildForum:
+        return 'forum';
+      case ChannelType.GuildCategory:
+        return 'category';
+      case ChannelType.GuildVoice:
+        return 'voice';
+      case ChannelType.GuildStageVoice:
+        return 'stage';
+      case ChannelType.PublicThread:
+      case ChannelType.PrivateThread:
+      case ChannelType.AnnouncementThread:
+        return 'thread';
+      case ChannelType.DM:
+        return 'dm';
+      default:
+        return 'other';
+    }
+  }
+
+  /**
+   * Describe a thread for AXON clients; null for anything that isn't a thread
+   */
+  private threadInfo(channel: any): ThreadInfo | null {
+    if (!channel?.isThread?.()) return null;
+    const thread = channel as ThreadChannel;
+    return {
+      id: thread.id,
+      name: thread.name,
+      parentId: thread.parentId,
+      parentName: thread.parent?.name,
+      archived: !!thread.archived,
+      locked: !!thread.locked,
+      private: thread.type === ChannelType.PrivateThread,
+      ...(thread.parent?.type === ChannelType.GuildForum ? { appliedTags: thread.appliedTags } : {})
+    };
+  }
+  
+  private async handleAxonMessage(connectionId: string, msg: ClientFrame): Promise<void> {
+    const connection = this.connections.get(connectionId);
+    if (!connection) return;
+    
+    console.log(`[Server] Handling message:`, msg.type);
+
+    // Interaction commands are scoped to the channel the interaction came from
+    const channelId = 'channelId' in msg
+      ? msg.channelId
+      : 'interactionId' in msg ? connection.pendingInteractions.channelOf(msg.interactionId) : undefined;
+    const target = channelId
+      ? await this.discord.channels.fetch(channelId).catch(() => null)
+      : undefined;
+    const isDirectMessage = target?.type === ChannelType.DM;
+
+    // Threads inherit the scope of their parent channel
+    const denied = (isDirectMessage && !connection.directMessages)
+      ? 'direct messages are not enabled for this connection'
+      : checkScope(connection.scopes, msg, {
+          channelId: channelId ?? undefined,
+          parentId: target?.isThread() ? target.parentId : undefined,
+          isDirectMessage
+        });
+    if (denied) {
+      console.warn(`[Server] Denied ${msg.type} for ${connection.agentName}: ${denied}`);
+      this.sendFrame(connection, {
+        type: 'error',
+        error: `Forbidden: ${denied}`
+      }, msg);
+      return;
+    }
+    
+    switch (msg.type) {
+      case 'join': {
+        const { channelId, scrollback = 50, lastMessageId } = msg;
+        
+        try {
+          const channel = await this.fetchMessageableChannel(channelId);
+
+          // The bot only receives messages from threads it is a member of
+          if (channel.isThread() && !channel.joined && channel.joinable) {
+            await channel.join();
+          }
+          
+          this.addJoinedChannel(connection, channelId);
+          const guild = channel.isDMBased() ? null : channel.guild;
+          
+          // Cache guild members for reverse user lookups
+          if (guild) {
+            // Cache channel name for reverse lookups
+            this.channelNameToId.set(this.channelName(channel).toLowerCase(), channel.id);
+
+            const members = await guild.members.fetch({ limit: 100 });
+            members.forEach(member => {
+              this.userNameToId.set(member.user.username.toLowerCase(), member.user.id);
+            });
+            
+            // Cache roles for reverse role lookups
+            guild.roles.cache.forEach(role => {
+              this.roleNameToId.set(role.name.toLowerCase(), role.id);
+            });
+          }
+          
+          // Catch up on every message after lastMessageId if provided (up
+          // to the cap), otherwise send recent messages
+          const { newest } = await this.streamHistory(
+            connection,
+            channel,
+            lastMessageId ? { after: lastMessageId, limit: this.maxHistoryMessages } : { limit: scrollback },
+            msg
+          );
+          if (newest) this.markRead(connection, channel.id, newest);
+          
+          // Send joined confirmation with channel info
+          this.sendFrame(connection, {
+            type: 'joined',
+            channel: {
+              id: channel.id,
+              name: this.channelName(channel),
+              type: channel.type,
+              guildId: guild?.id ?? null,
+              guildName: guild?.name,
+              parentId: channel.isDMBased() ? null : channel.parentId,
+              thread: this.threadInfo(channel)
+            }
+          }, msg);
+          
+          console.log(`[Server] Agent joined channel: ${this.channelName(channel)} (${channelId})`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to join channel:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to join channel: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+      
+      case 'fetchHistory': {
+        const { channelId, before, after, limit = 50 } = msg;
+
+        try {
+          if (before !== undefined && after !== undefined) {
+            throw new Error('Pass before or after, not both');
+          }
+          const channel = await this.fetchMessageableChannel(channelId);
+          const { count, hasMore, cursor } = await this.streamHistory(connection, channel, { before, after, limit }, msg);
+
+          this.sendFrame(connection, {
+            type: 'history_fetched',
+            channelId: channel.id,
+            count,
+            hasMore,
+            cursor
+          }, msg);
+        } catch (error: any) {
+          console.error(`[Server] Failed to fetch history:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to fetch history: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'leave': {
+        const { channelId } = msg;
+        connection.joinedChannels.delete(channelId);
+        this.membership.leave(connection.agentName, connection.guildId, channelId);
+        
+        // Send left confirmation
+        this.sendFrame(connection, {
+          type: 'left',
+          channelId
+        }, msg);
+        
+        console.log(`[Server] Agent left channel: ${channelId}`);
+        break;
+      }
+      
+      case 'send':
+      case 'sendEmbed':
+        // Delivered (and retried) through the outbox, which reports back
+        this.outbox.submit(connection.agentName, msg, { connectionId, requestId: msg.requestId });
+        break;
+
+      case 'listGuilds': {
+        try {
+          const guilds = this.discord.guilds.cache
+            .filter(guild => isGuildAllowed(connection.scopes, guild.id))
+            .map(guild => ({
+              id: guild.id,
+              name: guild.name,
+              icon: guild.iconURL(),
+              memberCount: guild.memberCount
+            }));
+          
+          this.sendFrame(connection, {
+            type: 'guilds',
+            guilds
+          }, msg);
+          
+          console.log(`[Server] Sent guilds list to ${connection.agentName} (${guilds.length} guilds)`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to list guilds:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to list guilds: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+      
+      case 'listChannels': {
+        const { guildId } = msg;
+
+        try {
+          const guild = await this.discord.guilds.fetch(guildId);
+          if (!guild) {
+            throw new Error('Guild not found');
+          }
+
+          // Categories are included so clients can group channels under them
+          const channels: ChannelSummary[] = guild.channels.cache
+            .filter(channel => !channel.isThread() && (
+              channel.isTextBased() ||
+              channel.type === ChannelType.GuildForum ||
+              channel.type === ChannelType.GuildCategory
+            ))
+            .map(channel => ({
+              id: channel.id,
+              name: channel.name,
+              type: channel.type,
+              typeName: this.channelTypeName(channel.type),
+              guildId: guild.id,
+              guildName: guild.name,
+              parentId: channel.parentId,
+              position: 'position' in channel ? channel.position : 0,
+              topic: 'topic' in channel ? channel.topic : null,
+              ...(channel.type === ChannelType.GuildForum ? { availableTags: this.forumTags(channel) } : {})
+            }))
+            .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+          // Active threads follow the regular channels
+          const { threads } = await guild.channels.fetchActiveThreads();
+          for (const thread of threads.values()) {
+            channels.push({
+              id: thread.id,
+              name: thread.name,
+              type: thread.type,
+              typeName: 'thread',
+              guildId: guild.id,
+              guildName: guild.name,
+              parentId: thread.parentId,
+              thread: this.threadInfo(thread)
+            });
+          }
+
+          this.sendFrame(connection, {
             type: 'channels',
             guildId,
             channels
-          }));
+          }, msg);
 
           console.log(`[Server] Sent channels list for guild ${guild.name} to ${connection.agentName} (${channels.length} channels)`);
         } catch (error: any) {
           console.error(`[Server] Failed to list channels:`, error);
-          connection.ws.send(JSON.stringify({
+          this.sendFrame(connection, {
             type: 'error',
             error: `Failed to list channels: ${error.message}`
-          }));
+          }, msg);
         }
         break;
       }
 
       case 'registerSlashCommand': {
-        const { name, description, options = [] } = msg;
+        const { name, description, options = [], commandType } = msg;
 
         try {
           // Wait for Discord to be ready
@@ -926,44 +1881,46 @@ class CombinedDiscordAxonServer {
             });
           }
 
-          await this.registerSlashCommand(connection.guildId, name, description, options);
-          connection.registeredCommands.add(name);
+          const type = commandTypeFor(commandType);
+          const command = type === ApplicationCommandType.ChatInput
+            ? buildSlashCommand(name, description ?? '', options)
+            : buildContextMenuCommand(name, type, options);
+          await this.commandSync.register(connection.guildId, connection.agentName, command);
 
-          connection.ws.send(JSON.stringify({
+          this.sendFrame(connection, {
             type: 'slash-command-registered',
             name
-          }));
+          }, msg);
 
-          console.log(`[Server] Registered slash command /${name} for ${connection.agentName}`);
+          console.log(`[Server] Registered ${commandType ?? 'slash'} command ${name} for ${connection.agentName}`);
         } catch (error: any) {
           console.error(`[Server] Failed to register slash command:`, error);
-          connection.ws.send(JSON.stringify({
+          this.sendFrame(connection, {
             type: 'error',
             error: `Failed to register slash command: ${error.message}`
-          }));
+          }, msg);
         }
         break;
       }
 
       case 'unregisterSlashCommand': {
-        const { name } = msg;
+        const { name, commandType } = msg;
 
         try {
-          await this.unregisterSlashCommand(connection.guildId, name);
-          connection.registeredCommands.delete(name);
+          await this.commandSync.unregister(connection.guildId, connection.agentName, name, commandTypeFor(commandType));
 
-          connection.ws.send(JSON.stringify({
+          this.sendFrame(connection, {
             type: 'slash-command-unregistered',
             name
-          }));
+          }, msg);
 
-          console.log(`[Server] Unregistered slash command /${name} for ${connection.agentName}`);
+          console.log(`[Server] Unregistered ${commandType ?? 'slash'} command ${name} for ${connection.agentName}`);
         } catch (error: any) {
           console.error(`[Server] Failed to unregister slash command:`, error);
-          connection.ws.send(JSON.stringify({
+          this.sendFrame(connection, {
             type: 'error',
             error: `Failed to unregister slash command: ${error.message}`
-          }));
+          }, msg);
         }
         break;
       }
@@ -979,320 +1936,752 @@ class CombinedDiscordAxonServer {
 
           await channel.sendTyping();
           console.log(`[Server] Sent typing indicator to ${channel.name}`);
+
+          this.sendFrame(connection, {
+            type: 'typing_sent',
+            channelId
+          }, msg);
         } catch (error: any) {
           console.error(`[Server] Failed to send typing indicator:`, error);
-          connection.ws.send(JSON.stringify({
+          this.sendFrame(connection, {
             type: 'error',
             error: `Failed to send typing indicator: ${error.message}`
-          }));
+          }, msg);
         }
         break;
       }
 
-      case 'sendEmbed': {
-        const { channelId, embed, buttons = [] } = msg;
+      case 'editMessage': {
+        const { channelId, messageId, content } = msg;
 
         try {
-          const channel = await this.discord.channels.fetch(channelId) as TextChannel;
-          if (!channel || channel.type !== 0) {
-            throw new Error('Channel not found or not a text channel');
+          const embeds = collectEmbeds(msg);
+          // Components are only touched when the edit names them; an empty list clears them
+          const editsComponents = msg.buttons !== undefined || msg.components !== undefined;
+          const components = editsComponents
+            ? buildComponentRows(collectComponentRows(msg), customIdNamespace(connection.agentName))
+            : undefined;
+          const channel = await this.fetchMessageableChannel(channelId);
+
+          const message = await channel.messages.fetch(messageId);
+          if (!message) {
+            throw new Error('Message not found');
           }
 
-          // Build embed
-          const embedBuilder = new EmbedBuilder()
-            .setTitle(embed.title)
-            .setDescription(embed.description)
-            .setColor(embed.color || 0x5865F2);
+          // Build message payload
+          const messagePayload: MessageEditOptions = {};
 
-          if (embed.fields) {
-            embedBuilder.addFields(embed.fields);
+          if (content !== undefined) {
+            messagePayload.content = content;
           }
 
-          // Build message payload
-          const messagePayload: any = { embeds: [embedBuilder] };
-
-          // Add buttons if provided
-          if (buttons.length > 0) {
-            const row = new ActionRowBuilder<ButtonBuilder>();
-            for (const btn of buttons) {
-              const button = new ButtonBuilder()
-                .setCustomId(btn.customId)
-                .setLabel(btn.label)
-                .setStyle(this.getButtonStyle(btn.style));
-
-              if (btn.emoji) {
-                button.setEmoji(btn.emoji);
-              }
+          if (embeds.length > 0) {
+            messagePayload.embeds = buildEmbeds(embeds);
+          }
 
-              row.addComponents(button);
-            }
-            messagePayload.components = [row];
+          if (components) {
+            messagePayload.components = components;
           }
 
-          const sentMessage = await channel.send(messagePayload);
-          console.log(`[Server] Sent embed to ${channel.name} with ${buttons.length} buttons`);
+          await message.edit(messagePayload);
+          console.log(`[Server] Edited message ${messageId} in ${this.channelName(channel)}`);
 
           // Send confirmation
-          connection.ws.send(JSON.stringify({
-            type: 'message_sent',
+          this.sendFrame(connection, {
+            type: 'message_edited',
             channelId,
-            messageId: sentMessage.id,
-            timestamp: sentMessage.createdAt.toISOString()
-          }));
+            messageId,
+            timestamp: new Date().toISOString()
+          }, msg);
+        } catch (error: any) {
+          console.error(`[Server] Failed to edit message:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to edit message: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'replyToInteraction':
+      case 'followUp': {
+        const { interactionId, ephemeral = false } = msg;
+        const isFollowUp = msg.type === 'followUp';
+
+        try {
+          const options = { ...this.interactionMessageOptions(connection, msg), ephemeral };
+          const message = isFollowUp
+            ? await connection.pendingInteractions.followUp(interactionId, options)
+            : await connection.pendingInteractions.reply(interactionId, options);
+
+          this.sendFrame(connection, isFollowUp
+            ? { type: 'interaction_followup_sent', interactionId, messageId: message.id }
+            : { type: 'interaction_replied', interactionId, messageId: message.id }, msg);
+
+          console.log(`[Server] ${isFollowUp ? 'Sent followup to' : 'Replied to'} interaction ${interactionId}`);
         } catch (error: any) {
-          console.error(`[Server] Failed to send embed:`, error);
-          connection.ws.send(JSON.stringify({
+          console.error(`[Server] Failed to ${isFollowUp ? 'follow up on' : 'reply to'} interaction:`, error);
+          this.sendFrame(connection, {
             type: 'error',
-            error: `Failed to send embed: ${error.message}`
-          }));
+            error: `Failed to ${isFollowUp ? 'follow up on' : 'reply to'} interaction: ${error.message}`
+          }, msg);
         }
         break;
       }
 
-      case 'editMessage': {
-        const { channelId, messageId, content, embed, buttons = [] } = msg;
+      case 'deferInteraction': {
+        const { interactionId, ephemeral = false } = msg;
 
         try {
-          const channel = await this.discord.channels.fetch(channelId) as TextChannel;
-          if (!channel || channel.type !== 0) {
-            throw new Error('Channel not found or not a text channel');
-          }
+          await connection.pendingInteractions.defer(interactionId, ephemeral);
 
-          const message = await channel.messages.fetch(messageId);
-          if (!message) {
-            throw new Error('Message not found');
-          }
+          this.sendFrame(connection, {
+            type: 'interaction_deferred',
+            interactionId
+          }, msg);
+        } catch (error: any) {
+          console.error(`[Server] Failed to defer interaction:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to defer interaction: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
 
-          // Build message payload
-          const messagePayload: any = {};
+      case 'editReply': {
+        const { interactionId } = msg;
 
-          if (content !== undefined) {
-            messagePayload.content = content;
-          }
+        try {
+          const message = await connection.pendingInteractions.editReply(interactionId, this.interactionMessageOptions(connection, msg));
 
-          if (embed) {
-            const embedBuilder = new EmbedBuilder()
-              .setTitle(embed.title)
-              .setDescription(embed.description)
-              .setColor(embed.color || 0x5865F2);
+          this.sendFrame(connection, {
+            type: 'interaction_reply_edited',
+            interactionId,
+            messageId: message.id
+          }, msg);
+        } catch (error: any) {
+          console.error(`[Server] Failed to edit interaction reply:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to edit interaction reply: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
 
-            if (embed.fields) {
-              embedBuilder.addFields(embed.fields);
-            }
+      case 'deleteReply': {
+        const { interactionId } = msg;
 
-            messagePayload.embeds = [embedBuilder];
-          }
+        try {
+          await connection.pendingInteractions.deleteReply(interactionId);
 
-          // Add buttons if provided
-          if (buttons.length > 0) {
-            const row = new ActionRowBuilder<ButtonBuilder>();
-            for (const btn of buttons) {
-              const button = new ButtonBuilder()
-                .setCustomId(btn.customId)
-                .setLabel(btn.label)
-                .setStyle(this.getButtonStyle(btn.style));
-
-              if (btn.emoji) {
-                button.setEmoji(btn.emoji);
-              }
+          this.sendFrame(connection, {
+            type: 'interaction_reply_deleted',
+            interactionId
+          }, msg);
+        } catch (error: any) {
+          console.error(`[Server] Failed to delete interaction reply:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to delete interaction reply: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
 
-              row.addComponents(button);
-            }
-            messagePayload.components = [row];
+      case 'showModal': {
+        const { interactionId, customId, title, fields } = msg;
+
+        try {
+          await connection.pendingInteractions.showModal(interactionId, buildModal(customId, title, fields, customIdNamespace(connection.agentName)));
+
+          this.sendFrame(connection, {
+            type: 'modal_shown',
+            interactionId
+          }, msg);
+
+          console.log(`[Server] Showed modal ${customId} for interaction ${interactionId}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to show modal:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to show modal: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'respondAutocomplete': {
+        const { interactionId, choices } = msg;
+
+        try {
+          await connection.pendingInteractions.respondAutocomplete(interactionId, choices);
+
+          this.sendFrame(connection, {
+            type: 'autocomplete_responded',
+            interactionId
+          }, msg);
+
+          console.log(`[Server] Sent ${choices.length} autocomplete suggestions for interaction ${interactionId}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to respond to autocomplete:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to respond to autocomplete: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'createThread': {
+        const { channelId, name, messageId, autoArchiveDuration, private: isPrivate = false } = msg;
+
+        try {
+          const channel = await this.fetchMessageableChannel(channelId);
+          if (channel.isThread() || channel.isDMBased()) {
+            throw new Error('Threads can only be created in text channels');
+          }
+
+          let thread: ThreadChannel;
+          if (messageId) {
+            const message = await channel.messages.fetch(messageId);
+            thread = await message.startThread({
+              name,
+              autoArchiveDuration: autoArchiveDuration as ThreadAutoArchiveDuration | undefined
+            });
           } else {
-            // Clear buttons if none provided
-            messagePayload.components = [];
+            thread = await (channel as TextChannel).threads.create({
+              name,
+              autoArchiveDuration: autoArchiveDuration as ThreadAutoArchiveDuration | undefined,
+              type: isPrivate ? ChannelType.PrivateThread : ChannelType.PublicThread
+            });
           }
 
-          await message.edit(messagePayload);
-          console.log(`[Server] Edited message ${messageId} in ${channel.name}`);
+          // The creating agent is joined to its thread
+          this.addJoinedChannel(connection, thread.id);
 
-          // Send confirmation
-          connection.ws.send(JSON.stringify({
-            type: 'message_edited',
-            channelId,
-            messageId,
-            timestamp: new Date().toISOString()
-          }));
+          this.sendFrame(connection, {
+            type: 'thread_created',
+            thread: this.threadInfo(thread)!
+          }, msg);
+
+          console.log(`[Server] Created thread ${thread.name} (${thread.id}) in ${this.channelName(channel)} for ${connection.agentName}`);
         } catch (error: any) {
-          console.error(`[Server] Failed to edit message:`, error);
-          connection.ws.send(JSON.stringify({
+          console.error(`[Server] Failed to create thread:`, error);
+          this.sendFrame(connection, {
             type: 'error',
-            error: `Failed to edit message: ${error.message}`
-          }));
+            error: `Failed to create thread: ${error.message}`
+          }, msg);
         }
         break;
       }
 
-      case 'replyToInteraction': {
-        const { interactionId, content, embed, ephemeral = false } = msg;
+      case 'archiveThread': {
+        const { channelId, archived = true, locked } = msg;
 
         try {
-          const interaction = connection.pendingInteractions.get(interactionId);
-          if (!interaction) {
-            throw new Error('Interaction not found or expired');
+          const thread = await this.fetchMessageableChannel(channelId);
+          if (!thread.isThread()) {
+            throw new Error('Channel is not a thread');
+          }
+
+          // An archived thread has to be reopened before it can be locked or unlocked
+          if (!archived) {
+            await thread.setArchived(false);
+          }
+          if (locked !== undefined) {
+            await thread.setLocked(locked);
+          }
+          if (archived) {
+            await thread.setArchived(true);
           }
 
-          const replyOptions: any = { ephemeral };
+          this.sendFrame(connection, {
+            type: 'thread_updated',
+            thread: this.threadInfo(thread)!
+          }, msg);
 
-          if (content) {
-            replyOptions.content = content;
+          console.log(`[Server] ${archived ? 'Archived' : 'Unarchived'} thread ${thread.name} for ${connection.agentName}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to update thread:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to ${archived ? 'archive' : 'unarchive'} thread: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'listForumPosts': {
+        const { channelId, includeArchived = false, limit = 25 } = msg;
+
+        try {
+          const forum = await this.fetchForumChannel(channelId);
+
+          const active = await forum.threads.fetchActive();
+          const posts = [...active.threads.values()];
+          if (includeArchived) {
+            const archived = await forum.threads.fetchArchived({ limit: Math.min(Math.max(limit, 1), 100) });
+            posts.push(...archived.threads.values());
           }
 
-          if (embed) {
-            const embedBuilder = new EmbedBuilder()
-              .setTitle(embed.title)
-              .setDescription(embed.description)
-              .setColor(embed.color || 0x5865F2);
+          const summaries: ForumPostSummary[] = posts
+            .filter(post => post.parentId === forum.id)
+            .map(post => ({
+              ...this.threadInfo(post)!,
+              ownerId: post.ownerId,
+              messageCount: post.messageCount,
+              createdAt: post.createdAt?.toISOString() ?? null
+            }));
 
-            if (embed.fields) {
-              embedBuilder.addFields(embed.fields);
+          this.sendFrame(connection, {
+            type: 'forum_posts',
+            channelId,
+            availableTags: this.forumTags(forum),
+            posts: summaries
+          }, msg);
+
+          console.log(`[Server] Sent ${summaries.length} forum posts from ${forum.name} to ${connection.agentName}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to list forum posts:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to list forum posts: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'createForumPost': {
+        const { channelId, name, message, tags = [], autoArchiveDuration } = msg;
+
+        try {
+          const forum = await this.fetchForumChannel(channelId);
+
+          // Tags may be given by ID or (case-insensitive) name
+          const appliedTags = tags.map(tag => {
+            const match = forum.availableTags.find(t => t.id === tag || t.name.toLowerCase() === String(tag).toLowerCase());
+            if (!match) {
+              const available = forum.availableTags.map(t => t.name).join(', ') || 'none';
+              throw new Error(`Unknown tag '${tag}' (available: ${available})`);
             }
+            return match.id;
+          });
+
+          const post = await forum.threads.create({
+            name,
+            message: { content: await this.unparseMentions(message, forum.guildId) },
+            appliedTags,
+            autoArchiveDuration: autoArchiveDuration as ThreadAutoArchiveDuration | undefined
+          });
+
+          // The creating agent is joined to its post
+          this.addJoinedChannel(connection, post.id);
+
+          this.sendFrame(connection, {
+            type: 'thread_created',
+            thread: this.threadInfo(post)!
+          }, msg);
 
-            replyOptions.embeds = [embedBuilder];
+          console.log(`[Server] Created forum post ${post.name} (${post.id}) in ${forum.name} for ${connection.agentName}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to create forum post:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to create forum post: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'crosspost': {
+        const { channelId, messageId } = msg;
+
+        try {
+          const channel = await this.fetchMessageableChannel(channelId);
+          if (channel.type !== ChannelType.GuildAnnouncement) {
+            throw new Error('Only messages in announcement channels can be published');
           }
 
-          if (interaction.replied || interaction.deferred) {
-            await interaction.followUp(replyOptions);
+          const message = await channel.messages.fetch(messageId);
+          await message.crosspost();
+
+          this.sendFrame(connection, {
+            type: 'message_crossposted',
+            channelId,
+            messageId
+          }, msg);
+
+          console.log(`[Server] Published message ${messageId} in ${channel.name} for ${connection.agentName}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to publish message:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to publish message: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'react':
+      case 'unreact': {
+        const { channelId, messageId, emoji } = msg;
+
+        try {
+          const channel = await this.fetchMessageableChannel(channelId);
+          const message = await channel.messages.fetch(messageId);
+
+          if (msg.type === 'react') {
+            await message.react(emoji);
           } else {
-            await interaction.reply(replyOptions);
+            // Removing a reaction the bot hasn't made is a no-op
+            await message.reactions.resolve(this.reactionKey(emoji))?.users.remove(this.discord.user!.id);
           }
 
-          // Clean up
-          connection.pendingInteractions.delete(interactionId);
+          this.sendFrame(connection, {
+            type: msg.type === 'react' ? 'reaction_added' : 'reaction_removed',
+            channelId,
+            messageId,
+            emoji
+          }, msg);
 
-          console.log(`[Server] Replied to interaction ${interactionId}`);
+          console.log(`[Server] ${msg.type === 'react' ? 'Reacted' : 'Removed reaction'} ${emoji} on message ${messageId} for ${connection.agentName}`);
         } catch (error: any) {
-          console.error(`[Server] Failed to reply to interaction:`, error);
-          connection.ws.send(JSON.stringify({
+          console.error(`[Server] Failed to ${msg.type}:`, error);
+          this.sendFrame(connection, {
             type: 'error',
-            error: `Failed to reply to interaction: ${error.message}`
-          }));
+            error: `Failed to ${msg.type === 'react' ? 'add' : 'remove'} reaction: ${error.message}`
+          }, msg);
+        }
+        break;
+      }
+
+      case 'openDM': {
+        const { userId } = msg;
+
+        try {
+          if (!connection.directMessages) {
+            throw new Error('Direct messages are not enabled for this connection');
+          }
+
+          const user = await this.discord.users.fetch(userId);
+          const dmChannel = await user.createDM();
+
+          // DMs in a conversation this agent started are routed only to it
+          connection.dmChannels.add(dmChannel.id);
+
+          this.sendFrame(connection, {
+            type: 'dm_opened',
+            channelId: dmChannel.id,
+            dm: { userId: user.id, username: user.username }
+          }, msg);
+
+          console.log(`[Server] Opened DM with ${user.username} (${dmChannel.id}) for ${connection.agentName}`);
+        } catch (error: any) {
+          console.error(`[Server] Failed to open DM:`, error);
+          this.sendFrame(connection, {
+            type: 'error',
+            error: `Failed to open DM: ${error.message}`
+          }, msg);
         }
         break;
       }
-    }
-  }
 
-  private getButtonStyle(style: string): ButtonStyle {
-    switch (style.toLowerCase()) {
-      case 'primary':
-      case 'blurple':
-        return ButtonStyle.Primary;
-      case 'secondary':
-      case 'grey':
-      case 'gray':
-        return ButtonStyle.Secondary;
-      case 'success':
-      case 'green':
-        return ButtonStyle.Success;
-      case 'danger':
-      case 'red':
-        return ButtonStyle.Danger;
-      case 'link':
-        return ButtonStyle.Link;
       default:
-        return ButtonStyle.Primary;
+        this.sendFrame(connection, {
+          type: 'error',
+          error: `Unknown command: ${(msg as ClientFrame).type}`
+        }, msg);
     }
   }
 
-  private async registerSlashCommand(guildId: string, name: string, description: string, options: any[]): Promise<void> {
-    if (!this.rest || !this.discord.user) {
-      throw new Error('Discord client not ready');
+  /**
+   * Post a send frame from the outbox once; resolves to the message_sent
+   * frame for its requesters and throws if Discord refuses or fails
+   */
+  private async deliverSend(entry: OutboxEntry): Promise<ServerFrame> {
+    return entry.frame.type === 'send' ? this.deliverMessage(entry, entry.frame) : this.deliverEmbed(entry, entry.frame);
+  }
+
+  private async deliverMessage(entry: OutboxEntry, msg: SendRequest): Promise<ServerFrame> {
+    const { channelId, message = '', files = [], replyTo, mentionReplyAuthor = true, nonce } = msg;
+
+    if (!message && files.length === 0) {
+      throw new Error('Nothing to send: message or files required');
     }
 
-    console.log(`[Server] Registering slash command /${name} for guild ${guildId}, bot user ${this.discord.user.id}`);
-
-    const command = new SlashCommandBuilder()
-      .setName(name)
-      .setDescription(description);
-
-    // Add options
-    for (const opt of options) {
-      switch (opt.type.toLowerCase()) {
-        case 'string':
-          command.addStringOption(option =>
-            option
-              .setName(opt.name)
-              .setDescription(opt.description)
-              .setRequired(opt.required ?? false)
-          );
-          break;
-        case 'integer':
-          command.addIntegerOption(option =>
-            option
-              .setName(opt.name)
-              .setDescription(opt.description)
-              .setRequired(opt.required ?? false)
-          );
-          break;
-        case 'boolean':
-          command.addBooleanOption(option =>
-            option
-              .setName(opt.name)
-              .setDescription(opt.description)
-              .setRequired(opt.required ?? false)
-          );
-          break;
-        case 'user':
-          command.addUserOption(option =>
-            option
-              .setName(opt.name)
-              .setDescription(opt.description)
-              .setRequired(opt.required ?? false)
-          );
-          break;
-        case 'channel':
-          command.addChannelOption(option =>
-            option
-              .setName(opt.name)
-              .setDescription(opt.description)
-              .setRequired(opt.required ?? false)
-          );
-          break;
+    const channel = await this.fetchMessageableChannel(channelId);
+
+    // Load and validate files before sending anything
+    const uploads = files.length > 0
+      ? await prepareUploads(files, {
+          maxBytes: uploadLimit(channel.isDMBased() ? undefined : channel.guild.premiumTier),
+          uploadRoots: this.config.uploadRoots || []
+        })
+      : [];
+
+    // Convert human-readable mentions to Discord IDs
+    const discordMessage = await this.unparseMentions(message, channel.isDMBased() ? undefined : channel.guildId);
+
+    // Split messages over Discord's length limit; only the first chunk is a reply
+    // and files go with the last one
+    const chunks = discordMessage ? splitMessage(discordMessage) : [];
+    if (chunks.length === 0) {
+      chunks.push('');
+    }
+    const replyOptions: any = {};
+
+    // Send as a Discord reply if the target message still exists
+    if (replyTo) {
+      const target = await channel.messages.fetch(replyTo).catch(() => null);
+      if (target) {
+        replyOptions.reply = {
+          messageReference: replyTo,
+          failIfNotExists: false // Target may be deleted between fetch and send
+        };
+        replyOptions.allowedMentions = {
+          parse: ['users', 'roles', 'everyone'],
+          repliedUser: mentionReplyAuthor
+        };
+      } else {
+        console.warn(`[Server] Reply target ${replyTo} not found in ${this.channelName(channel)}, sending as a regular message`);
+      }
+    }
+
+    // Plain text may be merged with the agent's other queued sends (but not
+    // when a nonce pins each part to a Discord message)
+    const coalescable = chunks.length === 1 && !!chunks[0] && uploads.length === 0 && !replyOptions.reply && nonce === undefined;
+
+    // Parts posted by an earlier attempt are not posted again
+    const sentIds = (entry.sentIds ??= []);
+
+    const queued = await this.queueSend(entry, channelId, {
+      cost: Math.max(chunks.length - sentIds.length, 1),
+      text: coalescable ? chunks[0] : undefined,
+      run: async (text) => {
+        const parts = text !== undefined ? [text] : chunks;
+        const sent: Message[] = [];
+        try {
+          for (let index = sentIds.length; index < parts.length; index++) {
+            const message = await channel.send({
+              ...(parts[index] ? { content: parts[index] } : {}),
+              ...this.discordNonce(entry, index),
+              ...(index === 0 ? replyOptions : {}),
+              ...(index === parts.length - 1 && uploads.length > 0 ? { files: uploads } : {})
+            });
+            sent.push(message);
+            sentIds.push(message.id);
+          }
+        } catch (error: any) {
+          // Report which chunks made it so the client can still track them
+          if (sentIds.length > 0) {
+            error.message = `${error.message} (sent ${sentIds.length} of ${parts.length} parts)`;
+            error.messageIds = [...sentIds];
+          }
+          throw error;
+        }
+        return sent;
       }
+    });
+
+    const sentMessages = queued.result;
+    if (sentIds.length === 0) {
+      // Coalesced into another send, which posted the message
+      sentIds.push(...sentMessages.map(m => m.id));
     }
+    const lastMessage = sentMessages[sentMessages.length - 1];
+    // The first part may have been posted by an earlier attempt
+    const firstMessage = sentMessages.find(m => m.id === sentIds[0])
+      ?? await channel.messages.fetch(sentIds[0]).catch(() => null);
+    const repliedTo = firstMessage?.reference?.messageId ?? (replyOptions.reply ? replyTo! : null);
+    console.log(`[Server] Sent message to ${this.channelName(channel)}: ${message} -> ${discordMessage} (ID: ${sentIds.join(', ')}${repliedTo ? `, reply to ${repliedTo}` : ''}${uploads.length > 0 ? `, ${uploads.length} files` : ''})`);
+
+    // Confirmation for the client, with message IDs
+    return {
+      type: 'message_sent',
+      channelId: channelId,
+      messageId: sentIds[0],
+      messageIds: [...sentIds], // All parts, in order, when the message was split
+      content: message,
+      reply: repliedTo ? { messageId: repliedTo, mentionedAuthor: mentionReplyAuthor } : null,
+      replyFailed: !!replyTo && !replyOptions.reply, // Requested reply target was gone
+      ...(uploads.length > 0 ? { attachments: serializeAttachments(lastMessage) } : {}),
+      ...(queued.coalesced > 1 ? { coalesced: queued.coalesced } : {}),
+      ...(nonce !== undefined ? { nonce } : {}),
+      timestamp: new Date(SnowflakeUtil.timestampFrom(sentIds[0])).toISOString()
+    };
+  }
+
+  private async deliverEmbed(entry: OutboxEntry, msg: SendEmbedRequest): Promise<ServerFrame> {
+    const { channelId, nonce } = msg;
+
+    const embeds = collectEmbeds(msg);
+    if (embeds.length === 0) {
+      throw new Error('sendEmbed needs an embed or embeds');
+    }
+
+    // Validate before touching Discord
+    const rows = collectComponentRows(msg);
+    const messagePayload: any = { embeds: buildEmbeds(embeds), components: buildComponentRows(rows, customIdNamespace(entry.agentName)) };
+    const channel = await this.fetchMessageableChannel(channelId);
 
-    // Register command to guild (POST adds individual command without overwriting others)
+    const queued = await this.queueSend(entry, channelId, {
+      cost: 1,
+      run: (): Promise<Message> => channel.send({ ...messagePayload, ...this.discordNonce(entry, 0) })
+    });
+
+    const sentMessage = queued.result;
+    console.log(`[Server] Sent ${embeds.length} embed(s) to ${this.channelName(channel)} with ${rows.length} component rows`);
+
+    return {
+      type: 'message_sent',
+      channelId,
+      messageId: sentMessage.id,
+      messageIds: [sentMessage.id],
+      ...(nonce !== undefined ? { nonce } : {}),
+      timestamp: sentMessage.createdAt.toISOString()
+    };
+  }
+
+  /**
+   * Tell a requester how its send ended: message_sent, send_status dropped
+   * when the send queue was full, or an error. Goes to another connection of
+   * the same agent if the requesting one has closed.
+   */
+  private reportSend(requester: OutboxRequester, entry: OutboxEntry, outcome: OutboxOutcome<ServerFrame>): void {
+    const connection = this.requesterConnection(requester, entry.agentName);
+    if (!connection) {
+      console.warn(`[Server] No connection of ${entry.agentName} to report send ${entry.id} to`);
+      return;
+    }
+
+    const { channelId, nonce } = entry.frame;
+    if (outcome.ok) {
+      this.sendFrame(connection, outcome.result, requester);
+    } else if ((outcome.error as any).dropped) {
+      this.sendFrame(connection, {
+        type: 'send_status',
+        channelId,
+        status: 'dropped',
+        queueDepth: this.sendQueue.depthOf(channelId),
+        reason: outcome.error.message,
+        ...(nonce !== undefined ? { nonce } : {})
+      }, requester);
+    } else {
+      const error: any = outcome.error;
+      console.error(`[Server] Failed to send ${entry.frame.type === 'send' ? 'message' : 'embed'}:`, error);
+      this.sendFrame(connection, {
+        type: 'error',
+        error: `Failed to send ${entry.frame.type === 'send' ? 'message' : 'embed'}: ${error.message}`,
+        ...(error.messageIds ? { messageIds: error.messageIds } : {}),
+        ...(nonce !== undefined ? { nonce } : {})
+      }, requester);
+    }
+  }
+
+  /**
+   * Send a progress frame about an outbox entry to all its requesters
+   */
+  private notifySend(entry: OutboxEntry, frame: ServerFrame): void {
+    for (const requester of entry.requesters) {
+      const connection = this.requesterConnection(requester, entry.agentName);
+      if (connection) this.sendFrame(connection, frame, requester);
+    }
+  }
+
+  private requesterConnection(requester: OutboxRequester, agentName: string): AxonConnection | undefined {
+    const connection = this.connections.get(requester.connectionId);
+    if (connection) return connection;
+    for (const candidate of this.connections.values()) {
+      if (candidate.agentName === agentName) return candidate;
+    }
+    return undefined;
+  }
+
+  /**
+   * Discord-side idempotency for sends with a nonce: each part gets a nonce
+   * derived from the agent, its nonce and the part, and Discord returns the
+   * existing message instead of posting a retried part twice
+   */
+  private discordNonce(entry: OutboxEntry, part: number): { nonce?: string; enforceNonce?: boolean } {
+    if (entry.frame.nonce === undefined) return {};
+    const nonce = createHash('sha256').update(`${entry.agentName}\u0000${entry.frame.nonce}\u0000${part}`).digest('hex').slice(0, 25);
+    return { nonce, enforceNonce: true };
+  }
+
+  /**
+   * Post through the send queue, reporting its progress to the requesters
+   * with send_status frames: queued while it waits and sent once it leaves
+   * the queue. Throws an error marked `dropped` when the queue is full.
+   */
+  private async queueSend<T>(
+    entry: OutboxEntry,
+    channelId: string,
+    job: Omit<SendJob<T>, 'owner' | 'onQueued'>
+  ): Promise<{ result: T; coalesced: number }> {
+    const nonce = entry.frame.nonce !== undefined ? { nonce: entry.frame.nonce } : {};
     try {
-      const route = Routes.applicationGuildCommands(this.discord.user.id, guildId);
-      console.log(`[Server] POST to Discord API: ${route}`);
-      const result = await this.rest.post(route, { body: command.toJSON() });
-      console.log(`[Server] Successfully registered /${name}:`, result);
-    } catch (error: any) {
-      console.error(`[Server] Discord API error:`, {
-        status: error.status,
-        code: error.code,
-        message: error.message,
-        requestBody: error.requestBody
+      const { result, queued, coalesced } = await this.sendQueue.submit(channelId, {
+        ...job,
+        owner: entry.agentName,
+        onQueued: queueDepth => {
+          console.log(`[Server] Send from ${entry.agentName} queued for ${channelId} (depth ${queueDepth})`);
+          this.notifySend(entry, { type: 'send_status', channelId, status: 'queued', queueDepth, ...nonce });
+        }
       });
+      if (queued) {
+        this.notifySend(entry, { type: 'send_status', channelId, status: 'sent', queueDepth: this.sendQueue.depthOf(channelId), ...nonce });
+      }
+      return { result, coalesced };
+    } catch (error: any) {
+      if (error.dropped) {
+        console.warn(`[Server] Dropped send from ${entry.agentName} to ${channelId}: ${error.message}`);
+      }
       throw error;
     }
   }
 
-  private async unregisterSlashCommand(guildId: string, name: string): Promise<void> {
+  /**
+   * Message content of an interaction response: content, embeds and
+   * component rows, validated before anything is sent
+   */
+  private interactionMessageOptions(connection: AxonConnection, msg: { content?: string; embed?: EmbedInput; embeds?: EmbedInput[]; components?: ComponentInput[][] }): {
+    content?: string;
+    embeds?: EmbedBuilder[];
+    components?: ReturnType<typeof buildComponentRows>;
+  } {
+    const embeds = collectEmbeds(msg);
+    return {
+      ...(msg.content !== undefined ? { content: msg.content } : {}),
+      ...(embeds.length > 0 ? { embeds: buildEmbeds(embeds) } : {}),
+      ...(msg.components ? { components: buildComponentRows(msg.components, customIdNamespace(connection.agentName)) } : {})
+    };
+  }
+
+  /**
+   * Key of an emoji in a message's reaction cache: the ID for custom emoji
+   * given as <:name:id>, <a:name:id> or name:id, otherwise the emoji itself
+   */
+  private reactionKey(emoji: string): string {
+    const custom = emoji.trim().match(/^<?a?:?\w+:(\d+)>?$/);
+    return custom ? custom[1] : emoji.trim();
+  }
+
+  private restForCommands(): REST {
     if (!this.rest || !this.discord.user) {
-      return;
+      throw new Error('Discord client not ready');
     }
+    return this.rest;
+  }
 
-    try {
-      // Get all registered commands
-      const commands: any = await this.rest.get(
-        Routes.applicationGuildCommands(this.discord.user.id, guildId)
-      );
-
-      // Find and delete the command
-      const command = commands.find((c: any) => c.name === name);
-      if (command) {
-        await this.rest.delete(
-          Routes.applicationGuildCommand(this.discord.user.id, guildId, command.id)
-        );
-      }
-    } catch (error) {
-      console.error(`[Server] Error unregistering command ${name}:`, error);
+  private hasAgentConnection(agentName: string, guildId: string): boolean {
+    for (const connection of this.connections.values()) {
+      if (connection.agentName === agentName && connection.guildId === guildId) return true;
     }
+    return false;
   }
-  
+
   private generateConnectionId(): string {
     return Math.random().toString(36).substring(2, 15);
   }
@@ -1335,9 +2724,15 @@ class CombinedDiscordAxonServer {
 
     console.log(`✅ Discord bot ready as ${this.discord.user?.tag}`);
 
+    // Keep the token for authenticating AXON connections
+    this.botToken = botToken;
+
     // Initialize REST client for slash commands (after login)
     this.rest = new REST({ version: '10' }).setToken(botToken);
 
+    // Deliver sends left pending by the previous run
+    this.outbox.restore();
+
     // Start Express server
     this.app.listen(this.httpPort, () => {
       console.log(`\n🚀 Combined Discord AXON Server`);
@@ -1360,6 +2755,30 @@ class CombinedDiscordAxonServer {
       });
     });
   }
+
+  /**
+   * Shut down: close AXON connections (their sessions end rather than wait
+   * to be resumed), write pending membership changes and stop retrying
+   * sends. Sends not yet delivered stay on disk for the next start.
+   */
+  async stop(): Promise<void> {
+    this.outbox.stop();
+    this.commandSync.clear();
+
+    for (const connection of this.connections.values()) {
+      clearTimeout(connection.detachTimer);
+      connection.pendingInteractions.clear();
+    }
+    this.connections.clear();
+    for (const client of this.wss.clients) {
+      client.close(CLOSE_SERVER_SHUTDOWN, 'Server shutting down');
+    }
+    this.wss.close();
+    this.hotReloadWss?.close();
+
+    this.membership.close();
+    await this.discord.destroy();
+  }
 }
 
 export { CombinedDiscordAxonServer };
@@ -0,0 +1,333 @@
+/**
+ * Slash command definitions
+ *
+ * Translates registerSlashCommand frames into Discord application command
+ * JSON: every option type, static choices, value and length limits, channel
+ * filters, autocomplete, and subcommands (optionally in groups), as well as
+ * user and message context menu commands. Definitions
+ * are checked against Discord's rules first, so a bad definition fails with a
+ * descriptive error instead of an API exception.
+ */
+
+import { ApplicationCommandOptionType, ApplicationCommandType } from 'discord.js';
+import type {
+  APIApplicationCommandOption,
+  CommandInteractionOption,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  RESTPostAPIContextMenuApplicationCommandsJSONBody
+} from 'discord.js';
+import { channelTypesFor } from './components';
+import type { CommandType, SlashCommandOptionInput, SlashCommandOptionValue } from './protocol';
+
+const MAX_OPTIONS = 25;
+const MAX_CHOICES = 25;
+const MAX_DESCRIPTION_LENGTH = 100;
+const MAX_CHOICE_NAME_LENGTH = 100;
+const MAX_STRING_LENGTH = 6000;
+
+// Lowercase letters, digits, - and _ (any script), 1-32 characters
+const NAME_PATTERN = /^[-_\p{Ll}\p{Lo}\p{N}\p{sc=Deva}\p{sc=Thai}]{1,32}$/u;
+
+type SupportedCommandType = ApplicationCommandType.ChatInput | ApplicationCommandType.User | ApplicationCommandType.Message;
+
+const COMMAND_TYPES: Record<CommandType, SupportedCommandType> = {
+  slash: ApplicationCommandType.ChatInput,
+  user: ApplicationCommandType.User,
+  message: ApplicationCommandType.Message
+};
+
+const OPTION_TYPES: Record<string, ApplicationCommandOptionType> = {
+  'subcommand': ApplicationCommandOptionType.Subcommand,
+  'subcommand-group': ApplicationCommandOptionType.SubcommandGroup,
+  'string': ApplicationCommandOptionType.String,
+  'integer': ApplicationCommandOptionType.Integer,
+  'number': ApplicationCommandOptionType.Number,
+  'boolean': ApplicationCommandOptionType.Boolean,
+  'user': ApplicationCommandOptionType.User,
+  'channel': ApplicationCommandOptionType.Channel,
+  'role': ApplicationCommandOptionType.Role,
+  'mentionable': ApplicationCommandOptionType.Mentionable,
+  'attachment': ApplicationCommandOptionType.Attachment
+};
+
+const NUMERIC_TYPES = new Set([ApplicationCommandOptionType.Integer, ApplicationCommandOptionType.Number]);
+const CHOICE_TYPES = new Set([ApplicationCommandOptionType.String, ...NUMERIC_TYPES]);
+const NESTING_TYPES = new Set([ApplicationCommandOptionType.Subcommand, ApplicationCommandOptionType.SubcommandGroup]);
+
+/**
+ * Validate and build the JSON body for a chat input command. Throws a
+ * descriptive error if the definition breaks Discord's rules.
+ */
+export function buildSlashCommand(
+  name: string,
+  description: string,
+  options: SlashCommandOptionInput[] = []
+): RESTPostAPIChatInputApplicationCommandsJSONBody {
+  checkName(name, 'Command');
+  checkDescription(description, `/${name}`);
+
+  return {
+    type: ApplicationCommandType.ChatInput,
+    name,
+    description,
+    options: buildOptions(options, `/${name}`, 0)
+  };
+}
+
+/**
+ * Discord's command type for a commandType field (default 'slash')
+ */
+export function commandTypeFor(commandType: string | undefined): SupportedCommandType {
+  const type = COMMAND_TYPES[(commandType ?? 'slash') as CommandType];
+  if (type === undefined) {
+    throw new Error(`Unknown command type '${commandType}' (expected slash, user or message)`);
+  }
+  return type;
+}
+
+/**
+ * Validate and build the JSON body for a user or message context menu
+ * command. Their names are shown as-is in the Apps menu, so spaces and
+ * capitals are allowed.
+ */
+export function buildContextMenuCommand(
+  name: string,
+  type: ApplicationCommandType.User | ApplicationCommandType.Message,
+  options?: SlashCommandOptionInput[]
+): RESTPostAPIContextMenuApplicationCommandsJSONBody {
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 32) {
+    throw new Error(`Context menu command name '${name}' must be 1-32 characters`);
+  }
+  if (options?.length) {
+    throw new Error(`${name}: context menu commands can't have options`);
+  }
+  return { type, name };
+}
+
+/**
+ * Build one level of options. depth is 0 for the command itself, 1 inside a
+ * subcommand or group, 2 inside a subcommand of a group.
+ */
+function buildOptions(options: SlashCommandOptionInput[], where: string, depth: number, parentType?: ApplicationCommandOptionType): APIApplicationCommandOption[] {
+  if (!Array.isArray(options)) {
+    throw new Error(`${where}: options must be an array`);
+  }
+  if (options.length > MAX_OPTIONS) {
+    throw new Error(`${where}: ${options.length} options (at most ${MAX_OPTIONS})`);
+  }
+
+  const built = options.map(option => buildOption(option, where, depth));
+  const nested = built.filter(option => NESTING_TYPES.has(option.type));
+
+  if (parentType === ApplicationCommandOptionType.SubcommandGroup && nested.length !== built.length) {
+    throw new Error(`${where}: a subcommand group may only contain subcommands`);
+  }
+  if (parentType === ApplicationCommandOptionType.Subcommand && nested.length > 0) {
+    throw new Error(`${where}: a subcommand can't contain subcommands or groups`);
+  }
+  if (nested.length > 0 && nested.length !== built.length) {
+    throw new Error(`${where}: subcommands can't be mixed with other options`);
+  }
+
+  // Discord requires required options to come first
+  const firstOptional = built.findIndex(option => !('required' in option && option.required));
+  const lateRequired = built.slice(firstOptional === -1 ? built.length : firstOptional)
+    .find(option => 'required' in option && option.required);
+  if (lateRequired) {
+    throw new Error(`${where}: required option '${lateRequired.name}' must come before optional ones`);
+  }
+
+  const names = new Set<string>();
+  for (const option of built) {
+    if (names.has(option.name)) {
+      throw new Error(`${where}: duplicate option name '${option.name}'`);
+    }
+    names.add(option.name);
+  }
+
+  return built;
+}
+
+function buildOption(input: SlashCommandOptionInput, parent: string, depth: number): APIApplicationCommandOption {
+  if (!input || typeof input !== 'object') {
+    throw new Error(`${parent}: options must be objects`);
+  }
+
+  const where = `${parent} ${input.name}`;
+  checkName(input.name, `${parent}: option`);
+  checkDescription(input.description, where);
+
+  const typeName = String(input.type ?? '').toLowerCase().replace(/_/g, '-');
+  const type = OPTION_TYPES[typeName];
+  if (type === undefined) {
+    throw new Error(`${where}: unknown option type '${input.type}' (expected ${Object.keys(OPTION_TYPES).join(', ')})`);
+  }
+
+  const option: any = { type, name: input.name, description: input.description };
+
+  if (NESTING_TYPES.has(type)) {
+    const maxDepth = type === ApplicationCommandOptionType.SubcommandGroup ? 0 : 1;
+    if (depth > maxDepth) {
+      throw new Error(`${where}: ${typeName}s can't be nested this deep`);
+    }
+    option.options = buildOptions(input.options ?? [], where, depth + 1, type);
+    if (type === ApplicationCommandOptionType.SubcommandGroup && option.options.length === 0) {
+      throw new Error(`${where}: a subcommand group needs at least one subcommand`);
+    }
+    return option;
+  }
+
+  if (input.options !== undefined) {
+    throw new Error(`${where}: only subcommands and groups can have options`);
+  }
+
+  option.required = input.required ?? false;
+
+  if (input.choices !== undefined) {
+    if (!CHOICE_TYPES.has(type)) {
+      throw new Error(`${where}: only string, integer and number options can have choices`);
+    }
+    if (input.autocomplete) {
+      throw new Error(`${where}: an option can't have both choices and autocomplete`);
+    }
+    option.choices = buildChoices(input.choices, type, where);
+  }
+
+  if (input.autocomplete) {
+    if (!CHOICE_TYPES.has(type)) {
+      throw new Error(`${where}: only string, integer and number options support autocomplete`);
+    }
+    option.autocomplete = true;
+  }
+
+  if (input.minValue !== undefined || input.maxValue !== undefined) {
+    if (!NUMERIC_TYPES.has(type)) {
+      throw new Error(`${where}: minValue/maxValue only apply to integer and number options`);
+    }
+    checkRange(input.minValue, input.maxValue, where, 'Value', type === ApplicationCommandOptionType.Integer);
+    if (input.minValue !== undefined) option.min_value = input.minValue;
+    if (input.maxValue !== undefined) option.max_value = input.maxValue;
+  }
+
+  if (input.minLength !== undefined || input.maxLength !== undefined) {
+    if (type !== ApplicationCommandOptionType.String) {
+      throw new Error(`${where}: minLength/maxLength only apply to string options`);
+    }
+    checkRange(input.minLength, input.maxLength, where, 'Length', true, 0, MAX_STRING_LENGTH);
+    if (input.minLength !== undefined) option.min_length = input.minLength;
+    if (input.maxLength !== undefined) option.max_length = input.maxLength;
+  }
+
+  if (input.channelTypes !== undefined) {
+    if (type !== ApplicationCommandOptionType.Channel) {
+      throw new Error(`${where}: channelTypes only apply to channel options`);
+    }
+    option.channel_types = channelTypesFor(input.channelTypes, where);
+  }
+
+  return option;
+}
+
+/**
+ * Validate autocomplete suggestions or static choices for an option type
+ */
+export function buildChoices(
+  choices: Array<{ name: string; value: string | number }>,
+  type: ApplicationCommandOptionType,
+  where: string
+): Array<{ name: string; value: string | number }> {
+  if (!Array.isArray(choices)) {
+    throw new Error(`${where}: choices must be an array`);
+  }
+  if (choices.length > MAX_CHOICES) {
+    throw new Error(`${where}: ${choices.length} choices (at most ${MAX_CHOICES})`);
+  }
+
+  return choices.map((choice, index) => {
+    const choiceWhere = `${where}, choice ${index + 1}`;
+    if (typeof choice?.name !== 'string' || choice.name.length === 0 || choice.name.length > MAX_CHOICE_NAME_LENGTH) {
+      throw new Error(`${choiceWhere}: name must be 1 to ${MAX_CHOICE_NAME_LENGTH} characters`);
+    }
+    const valid = type === ApplicationCommandOptionType.String
+      ? typeof choice.value === 'string' && choice.value.length <= MAX_CHOICE_NAME_LENGTH
+      : typeof choice.value === 'number' && (type !== ApplicationCommandOptionType.Integer || Number.isInteger(choice.value));
+    if (!valid) {
+      throw new Error(`${choiceWhere}: value must be ${type === ApplicationCommandOptionType.String ? `a string of at most ${MAX_CHOICE_NAME_LENGTH} characters` : type === ApplicationCommandOptionType.Integer ? 'an integer' : 'a number'}`);
+    }
+    return { name: choice.name, value: choice.value };
+  });
+}
+
+/**
+ * The subcommand group, subcommand and leaf options of an invoked command
+ */
+export function flattenInvokedOptions(data: readonly CommandInteractionOption[]): {
+  subcommandGroup: string | null;
+  subcommand: string | null;
+  options: SlashCommandOptionValue[];
+} {
+  let subcommandGroup: string | null = null;
+  let subcommand: string | null = null;
+  let options = data;
+
+  if (options[0]?.type === ApplicationCommandOptionType.SubcommandGroup) {
+    subcommandGroup = options[0].name;
+    options = options[0].options ?? [];
+  }
+  if (options[0]?.type === ApplicationCommandOptionType.Subcommand) {
+    subcommand = options[0].name;
+    options = options[0].options ?? [];
+  }
+
+  return {
+    subcommandGroup,
+    subcommand,
+    options: options.map(option => ({
+      name: option.name,
+      type: option.type,
+      value: option.value,
+      ...(option.focused ? { focused: true } : {}),
+      ...(option.attachment ? {
+        attachment: {
+          id: option.attachment.id,
+          filename: option.attachment.name,
+          contentType: option.attachment.contentType,
+          size: option.attachment.size,
+          url: option.attachment.url
+        }
+      } : {})
+    }))
+  };
+}
+
+function checkName(name: unknown, where: string): void {
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    throw new Error(`${where} name '${name}' must be 1-32 lowercase letters, digits, - or _`);
+  }
+}
+
+function checkDescription(description: unknown, where: string): void {
+  if (typeof description !== 'string' || description.length === 0 || description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new Error(`${where}: description must be 1 to ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+}
+
+function checkRange(
+  min: number | undefined,
+  max: number | undefined,
+  where: string,
+  kind: 'Value' | 'Length',
+  integer: boolean,
+  lowest: number = -Number.MAX_SAFE_INTEGER,
+  highest: number = Number.MAX_SAFE_INTEGER
+): void {
+  for (const [field, value] of [[`min${kind}`, min], [`max${kind}`, max]] as const) {
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || (integer && !Number.isInteger(value)) || value < lowest || value > highest) {
+      throw new Error(`${where}: ${field} must be ${integer ? 'an integer' : 'a number'}${kind === 'Length' ? ` from ${lowest} to ${highest}` : ''}`);
+    }
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error(`${where}: min${kind} is greater than max${kind}`);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Outgoing file uploads
+ *
+ * Agents attach files to `send` either as base64 data or as a path on the
+ * server. Paths are only accepted inside the directories configured as
+ * discord.uploadRoots in config.yaml.
+ */
+
+import { promises as fs } from 'fs';
+import { isAbsolute, relative, resolve, basename, sep } from 'path';
+import { AttachmentBuilder, GuildPremiumTier } from 'discord.js';
+import type { FileInput } from './protocol';
+
+const MIB = 1024 * 1024;
+
+// Discord's per-message upload limit by server boost level
+const UPLOAD_LIMITS: Record<GuildPremiumTier, number> = {
+  [GuildPremiumTier.None]: 10 * MIB,
+  [GuildPremiumTier.Tier1]: 10 * MIB,
+  [GuildPremiumTier.Tier2]: 50 * MIB,
+  [GuildPremiumTier.Tier3]: 100 * MIB
+};
+
+export const MAX_FILES_PER_MESSAGE = 10;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/\r\n]*={0,2}\s*$/;
+
+/**
+ * Upload limit for a guild (DMs use the base limit)
+ */
+export function uploadLimit(premiumTier?: GuildPremiumTier): number {
+  return UPLOAD_LIMITS[premiumTier ?? GuildPremiumTier.None] ?? UPLOAD_LIMITS[GuildPremiumTier.None];
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= MIB) return `${(bytes / MIB).toFixed(1)} MB`;
+  return bytes >= 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${bytes} B`;
+}
+
+/**
+ * Read a file inside one of the upload roots, checking its size (against
+ * what is left of the upload limit) before reading it
+ */
+async function readFromUploadRoots(path: string, uploadRoots: string[], maxBytes: number): Promise<Buffer> {
+  if (uploadRoots.length === 0) {
+    throw new Error('File paths are not accepted: no discord.uploadRoots configured');
+  }
+
+  // Resolve symlinks so a link inside a root can't point outside it
+  const realPath = await fs.realpath(resolve(path)).catch(() => {
+    throw new Error(`File not found: ${path}`);
+  });
+
+  for (const root of uploadRoots) {
+    const realRoot = await fs.realpath(resolve(root)).catch(() => undefined);
+    if (!realRoot) continue;
+
+    const relativePath = relative(realRoot, realPath);
+    const outside = relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath);
+    if (relativePath && !outside) {
+      const stats = await fs.stat(realPath);
+      if (!stats.isFile()) {
+        throw new Error(`Not a regular file: ${path}`);
+      }
+      if (stats.size > maxBytes) {
+        throw new Error(`${path} (${formatBytes(stats.size)}) exceeds the ${formatBytes(maxBytes)} left of the upload limit`);
+      }
+      return fs.readFile(realPath);
+    }
+  }
+
+  throw new Error(`Path is outside the configured upload roots: ${path}`);
+}
+
+/**
+ * Validate and load files for a message. Throws a descriptive error if any
+ * file is malformed, unreadable, or the total exceeds maxBytes.
+ */
+export async function prepareUploads(
+  files: FileInput[],
+  options: { maxBytes: number; uploadRoots: string[] }
+): Promise<AttachmentBuilder[]> {
+  if (files.length > MAX_FILES_PER_MESSAGE) {
+    throw new Error(`Too many files: ${files.length} (at most ${MAX_FILES_PER_MESSAGE} per message)`);
+  }
+
+  const attachments: AttachmentBuilder[] = [];
+  let totalBytes = 0;
+
+  for (const [index, file] of files.entries()) {
+    if (!file || typeof file !== 'object') {
+      throw new Error(`File ${index + 1} must be an object`);
+    }
+    if ((file.data === undefined) === (file.path === undefined)) {
+      throw new Error(`File ${index + 1} must have exactly one of 'data' (base64) or 'path'`);
+    }
+
+    let content: Buffer;
+    if (file.data !== undefined) {
+      if (typeof file.data !== 'string' || !BASE64_PATTERN.test(file.data)) {
+        throw new Error(`File ${index + 1}: 'data' is not valid base64`);
+      }
+      content = Buffer.from(file.data, 'base64');
+    } else {
+      content = await readFromUploadRoots(String(file.path), options.uploadRoots, options.maxBytes - totalBytes);
+    }
+
+    const filename = file.filename || (file.path ? basename(file.path) : '');
+    if (!filename) {
+      throw new Error(`File ${index + 1} needs a filename`);
+    }
+
+    totalBytes += content.length;
+    if (totalBytes > options.maxBytes) {
+      throw new Error(`Files exceed the upload limit of ${formatBytes(options.maxBytes)} (${filename} brings the total to ${formatBytes(totalBytes)})`);
+    }
+
+    const attachment = new AttachmentBuilder(content, { name: filename });
+    if (file.description) {
+      attachment.setDescription(file.description);
+    }
+    if (file.spoiler) {
+      attachment.setSpoiler(true);
+    }
+    attachments.push(attachment);
+  }
+
+  return attachments;
+}